@@ -1,391 +1,1469 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { generatePosterBackground } from './services/gemini';
-import { AspectRatio, PosterConfig, AAINEA_LOGO_DEFAULT, ElementPos } from './types';
+import React, { useState, useRef, useEffect, useCallback, useMemo, SetStateAction } from 'react';
+import { createImageProvider, defaultImageProviderSettings } from './services/imageProvider';
+import { createStylePreset, STYLE_PRESETS } from './services/prompts';
+import { backgroundRequest } from './services/composition';
+import {
+  addBackgrounds, clearUnpinned, createBackground, findExtension, generateCandidates, generateVariations, MAX_CANDIDATES,
+  removeBackground, togglePinned
+} from './services/backgrounds';
+import { aspectValue, BrushStroke, brushMask, matchesAspect, paintStrokes } from './services/imageEditing';
+import { createProject, downloadProject, readProjectFile, resolveProjectAsset, upgradeProject } from './services/project';
+import {
+  createDesignId, createThumbnail, deleteBrandKit, deleteDesign, duplicateDesign, getDesign, getImageProviderSettings, getLastDesignId,
+  listBrandKits, listDesigns, renameDesign, saveBrandKit, saveDesign, saveImageProviderSettings, setLastDesignId
+} from './services/library';
+import { EditMeta, usePosterHistory } from './hooks/usePosterHistory';
+import LibraryPanel from './components/LibraryPanel';
+import HistoryPanel from './components/HistoryPanel';
+import LayerPanel from './components/LayerPanel';
+import ArrangePanel from './components/ArrangePanel';
+import BatchPanel from './components/BatchPanel';
+import FormatPanel from './components/FormatPanel';
+import LanguagePanel from './components/LanguagePanel';
+import ExportDialog from './components/ExportDialog';
+import BrandKitPanel from './components/BrandKitPanel';
+import QrPanel from './components/QrPanel';
+import ImageProviderPanel from './components/ImageProviderPanel';
+import BackgroundGallery from './components/BackgroundGallery';
+import PromptStylePanel from './components/PromptStylePanel';
+import BackgroundEditPanel from './components/BackgroundEditPanel';
+import {
+  addLayer, createLayer, expandGroups, extractStyle, findLayer, groupLayers, LayerStyle, moveLayer, pasteStyle,
+  isTextual, removeLayer, revealAssetLayers, ungroupLayers, updateLayer, updateLayerPos, updateLayersPos
+} from './services/layers';
+import {
+  axisAlignedBounds, Box, createCanvas, createSurface, encodeCanvas, encodePng, hitTestLayers, imageSources, isBold, LayerBounds, loadImage, measureLayer, POSTER_WIDTH,
+  posterHeight, preloadImages, RenderAssets, renderPoster, renderPosterCanvas, RenderSurface, safeZone, toCanvasPoint, unionBox
+} from './services/renderer';
+import { computeSnap, SnapGuide } from './services/snapping';
+import {
+  applyBatchRow, BatchData, BatchMapping, BatchTarget, DEFAULT_FILENAME_TEMPLATE, formatBatchFilename, guessMapping,
+  readBatchFile, renderBatch, uniqueFilenames
+} from './services/batch';
+import { createZip, downloadBlob, ZipEntry } from './services/zip';
+import {
+  commitFormatEdit, customizeFormat, fitLayersToCanvas, formatSlug, isCustomFormat, resetFormat, resolveFormat
+} from './services/formats';
+import { EXPORT_FORMATS, ExportOptions, exportPoster, outOfGamutShare } from './services/export';
+import { AlignEdge, alignLayers, DistributeAxis, distributeLayers } from './services/alignment';
+import {
+  applyBrandDefaults, brandColors, captureBrandDefaults, createBrandItemId, createBrandKit, enforceBrandColors, offBrandColors
+} from './services/brand';
+import { fontOptions, loadFonts, readFontFile } from './services/fonts';
+import { LAYOUT_ISSUE_LABELS, LayoutWarning, layoutWarnings } from './services/overflow';
+import {
+  commitLanguageEdit, createLanguage, customizeLanguageLayout, findLanguage, isCustomLanguageLayout, removeLanguage,
+  resetLanguageLayout, resolveLanguage, translationProgress
+} from './services/languages';
+import { checkQrScan } from './services/qr';
+import {
+  AspectRatio, BrandKit, CampaignField, GeneratedBackground, ImageLayer, ImageProviderSettings, LayerType, LibraryDesign, PosterConfig, PosterLayer, PosterProject, QrCodeSettings, TextualLayer,
+  DEFAULT_POSTER_CONFIG
+} from './types';
 
-const SNAP_SIZE = 2; // Grid snap percentage
+const DEFAULT_GRID_SIZE = 2; // Grid snap percentage
+const SNAP_THRESHOLD = 10; // Canvas pixels within which smart guides pull an element into line
+const GUIDE_COLOR = "#ec4899";
+const WARNING_COLOR = "#f59e0b";
+const AUTOSAVE_DELAY_MS = 800;
+
+const FIELD_LABELS: Record<CampaignField | 'theme', string> = {
+  theme: 'Theme Prompt',
+  brandName: 'Brand Name',
+  eventName: 'Event Name',
+  duration: 'Badge 1',
+  price: 'Badge 2',
+  headline: 'Headline',
+  subHeadline: 'Description',
+  ctaText: 'CTA Label'
+};
+
+const BATCH_LABELS: Record<BatchTarget, string> = { ...FIELD_LABELS, qrUrl: 'QR Image' };
+const PREVIEW_DELAY_MS = 400; // Debounce for offscreen batch and format thumbnails
+const THUMBNAIL_WIDTH = 240;
+const FORMAT_PREVIEW_WIDTH = 160;
+const GAMUT_SAMPLE_WIDTH = 256;
+
+const HANDLE_RADIUS = 14; // Canvas pixels
+const ROTATE_HANDLE_OFFSET = 50;
+const HIT_TOLERANCE = 6;
+const ROTATION_SNAP = 15; // Degrees, while holding Shift
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 3.0;
+const LONG_PRESS_MS = 450;
+const LONG_PRESS_SLOP = 1.5; // Percent of the canvas a finger may wander before a long press is abandoned
 
 interface DragState {
-  key: keyof PosterConfig;
+  layerId: string; // The layer under the pointer; the rest of the selection follows it
+  memberIds: string[];
+  origins: Record<string, { x: number; y: number }>;
+  mode: 'move' | 'resize' | 'rotate';
   offsetX: number;
   offsetY: number;
+  startedAt: number;
+  center?: { x: number; y: number };
+  startScale?: number;
+  startDistance?: number;
+  startRotation?: number;
+  startAngle?: number;
 }
 
+interface PinchState {
+  layerId: string;
+  startedAt: number;
+  startDistance: number;
+  startAngle: number;
+  startScale: number;
+  startRotation: number;
+}
+
+// Rubber-band selection in canvas pixels
+interface MarqueeState {
+  origin: { x: number; y: number };
+  current: { x: number; y: number };
+  baseIds: string[];
+}
+
+interface LongPressState {
+  pointerId: number;
+  layerId: string;
+  origin: { x: number; y: number };
+  timer: number;
+}
+
+const marqueeBox = (m: MarqueeState): Box => ({
+  x: Math.min(m.origin.x, m.current.x),
+  y: Math.min(m.origin.y, m.current.y),
+  w: Math.abs(m.current.x - m.origin.x),
+  h: Math.abs(m.current.y - m.origin.y)
+});
+
 const App: React.FC = () => {
-  const [config, setConfig] = useState<PosterConfig>({
-    aspectRatio: AspectRatio.STORY,
-    theme: "Futuristic Dubai skyline, sunset, ultra high tech bridge, glowing nodes, 8k professional render",
-    brandName: "Aaiena",
-    eventName: "Dubai Bridge Showcase",
-    duration: "22nd - 29th Dec",
-    price: "Dubai Bridge",
-    headline: "Master AI Tools Today",
-    subHeadline: "Join our comprehensive workshop to boost your productivity 10x with AI.",
-    ctaText: "Sign Up Now",
-    logoUrl: AAINEA_LOGO_DEFAULT,
-    qrUrl: null,
-    colorBrand: "#ffffff",
-    colorEvent: "#3b82f6",
-    colorHeadline: "#ffffff",
-    colorSubHeadline: "#e2e8f0",
-    colorCTA: "#ffffff",
-    bgColorCTA: "#2563eb",
-    colorBadges: "#ffffff",
-    bgColorBadge1: "rgba(0, 0, 0, 0.6)",
-    bgColorBadge2: "rgba(37, 99, 235, 0.6)",
-    posLogo: { x: 5, y: 5, scale: 1.0, visible: true },
-    posBrand: { x: 50, y: 10, scale: 1.0, visible: true, bold: true, italic: false },
-    posEventName: { x: 50, y: 62, scale: 1.0, visible: true, bold: true, italic: false },
-    posBadges: { x: 5, y: 15, scale: 1.0, visible: true, bold: true, italic: false },
-    posHeadline: { x: 50, y: 70, scale: 1.0, visible: true, bold: true, italic: false },
-    posSubHeadline: { x: 50, y: 78, scale: 1.0, visible: true, bold: false, italic: false },
-    posCTA: { x: 50, y: 90, scale: 1.0, visible: true, bold: true, italic: false },
-    posQR: { x: 85, y: 85, scale: 1.0, visible: false }
-  });
+  const {
+    config: designConfig, setConfig: setDesignConfig, entries: historyEntries, index: historyIndex,
+    canUndo, canRedo, undo, redo, jumpTo, resetHistory
+  } = usePosterHistory(DEFAULT_POSTER_CONFIG);
+
+  // The editor works on the current format's placements and the active translation's copy; edits are routed back
+  // to the shared, per-format or per-language layout and to the source or translated copy
+  const config = useMemo(() => resolveLanguage(resolveFormat(designConfig)), [designConfig]);
+  const brandKitsRef = useRef<BrandKit[]>([]);
+  const setConfig = useCallback((update: SetStateAction<PosterConfig>, meta?: EditMeta) => {
+    setDesignConfig(prev => {
+      const next = commitFormatEdit(prev, formatView =>
+        commitLanguageEdit(formatView, view => typeof update === 'function' ? update(view) : update));
+      // A locked brand kit pulls every color back onto its palette
+      const kit = brandKitsRef.current.find(k => k.id === next.brandKitId);
+      return kit?.locked ? enforceBrandColors(next, kit) : next;
+    }, meta);
+  }, [setDesignConfig]);
 
   const [isGenerating, setIsGenerating] = useState(false);
+  const [providerSettings, setProviderSettings] = useState<ImageProviderSettings>(defaultImageProviderSettings);
+  const imageProvider = useMemo(() => createImageProvider(providerSettings), [providerSettings]);
+  const [candidateCount, setCandidateCount] = useState(2);
+  // Every background the engine made for this design, newest first; saved with the design
+  const [backgroundHistory, setBackgroundHistory] = useState<GeneratedBackground[]>([]);
+  // While the brush is on, dragging on the poster marks the area to inpaint instead of moving layers
+  const [brush, setBrush] = useState({ active: false, size: 0.06 });
+  const [brushStrokes, setBrushStrokes] = useState<BrushStroke[]>([]);
+  const [autoExtend, setAutoExtend] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [activeDrag, setActiveDrag] = useState<DragState | null>(null);
-  const [selectedElement, setSelectedElement] = useState<keyof PosterConfig | null>(null);
+  const [pinch, setPinch] = useState<PinchState | null>(null);
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
+  const [gridSize, setGridSize] = useState(DEFAULT_GRID_SIZE);
+  const [smartGuides, setSmartGuides] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Handles and pinch gestures only apply when exactly one layer is selected
+  const primaryLayer = selectedIds.length === 1 ? findLayer(config, selectedIds[0]) : undefined;
+  const [marquee, setMarquee] = useState<MarqueeState | null>(null);
+  const [styleClipboard, setStyleClipboard] = useState<LayerStyle | null>(null);
   const [showDeployModal, setShowDeployModal] = useState(false);
+  const [exportGamut, setExportGamut] = useState<number | null>(null);
+  const [sidebarTab, setSidebarTab] = useState<'design' | 'brand' | 'batch' | 'library' | 'history'>('design');
+  const [batchData, setBatchData] = useState<BatchData | null>(null);
+  const [batchMapping, setBatchMapping] = useState<BatchMapping>({});
+  const [batchTemplate, setBatchTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+  const [batchPreviews, setBatchPreviews] = useState<(string | null)[]>([]);
+  const [batchBackgrounds, setBatchBackgrounds] = useState(false);
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+  const [formatPreviews, setFormatPreviews] = useState<Partial<Record<AspectRatio, string | null>>>({});
+  const [regenerateFormats, setRegenerateFormats] = useState(false);
+  const [packProgress, setPackProgress] = useState<{ done: number; total: number } | null>(null);
+  const [languageProgress, setLanguageProgress] = useState<{ done: number; total: number } | null>(null);
+  const [designId, setDesignId] = useState<string | null>(null);
+  const [designs, setDesigns] = useState<LibraryDesign[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [bgSrc, setBgSrc] = useState<string | null>(null);
+  const [bgSize, setBgSize] = useState<{ width: number; height: number } | null>(null);
+  const brushing = brush.active && !!bgSrc;
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  // Text that runs off the poster or out of the safe zone, measured once the design's fonts are loaded
+  const [layoutIssues, setLayoutIssues] = useState<LayoutWarning[]>([]);
+  brandKitsRef.current = brandKits;
+  const activeKit = brandKits.find(k => k.id === config.brandKitId) ?? null;
+  const brandSwatches = useMemo(() => activeKit ? brandColors(activeKit) : [], [activeKit]);
+  const offBrand = useMemo(() => activeKit ? offBrandColors(config, activeKit) : [], [config, activeKit]);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
   const bgImgRef = useRef<HTMLImageElement | null>(null);
-  const logoImgRef = useRef<HTMLImageElement | null>(null);
-  const qrImgRef = useRef<HTMLImageElement | null>(null);
+  // Loaded layer images keyed by source URL
+  const imageCacheRef = useRef<Map<string, HTMLImageElement>>(new Map());
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  // Active pointers in canvas percentages, keyed by pointerId
+  const pointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const longPressRef = useRef<LongPressState | null>(null);
+  const lastSavedRef = useRef<string | null>(null);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, type: 'logo' | 'qr') => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const dataUrl = event.target?.result as string;
-        if (type === 'logo') {
-          setConfig(prev => ({ ...prev, logoUrl: dataUrl }));
-        } else {
-          setConfig(prev => ({ 
-            ...prev, 
-            qrUrl: dataUrl, 
-            posQR: { ...prev.posQR, visible: true } 
-          }));
-        }
-      };
-      reader.readAsDataURL(file);
+  // Scan check for the generated code at the size the first visible QR layer shows it on the poster
+  const qrCheck = useMemo(() => {
+    const layer = config.layers.find((l): l is ImageLayer => l.type === 'image' && l.assetField === 'qrUrl' && l.pos.visible);
+    if (!config.qrCode || !layer) return null;
+    const logo = imageCacheRef.current.get(config.logoUrl);
+    return checkQrScan(config.qrCode, POSTER_WIDTH * layer.width * layer.pos.scale, logo?.complete ? logo : null, createCanvas);
+  }, [config]);
+
+  // What a background generation would send right now, shown in the prompt preview
+  const generationRequest = useMemo(() => backgroundRequest(config, imageCacheRef.current), [config]);
+
+  const readFileAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(event.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, type: 'logo' | 'qr') => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    setErrorMsg(null);
+    try {
+      const dataUrl = await readFileAsDataUrl(file);
+      if (type === 'logo') {
+        setConfig(prev => ({ ...prev, logoUrl: dataUrl }), { label: 'Replace Logo' });
+      } else {
+        setConfig(prev => revealAssetLayers({ ...prev, qrUrl: dataUrl, qrCode: null }, 'qrUrl'), { label: 'Embed QR' });
+      }
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(err instanceof Error ? err.message : "Could not read that image.");
+    } finally {
+      // Lets the same file be picked again
+      input.value = '';
     }
   };
 
-  const getCanvasMousePos = (e: React.MouseEvent | React.TouchEvent) => {
+  // Turning the generator on shows the QR layer, like embedding an image does
+  const handleQrChange = (qrCode: QrCodeSettings | null, label: string) => {
+    setConfig(prev => qrCode && !prev.qrCode ? revealAssetLayers({ ...prev, qrCode }, 'qrUrl') : { ...prev, qrCode },
+      { label, coalesce: `qr:${label}` });
+  };
+
+  const handleLayerImageUpload = async (e: React.ChangeEvent<HTMLInputElement>, layer: ImageLayer) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const dataUrl = await readFileAsDataUrl(file);
+    setConfig(prev => updateLayer<ImageLayer>(prev, layer.id, { src: dataUrl, assetField: undefined }), { label: `Replace ${layer.name}` });
+  };
+
+  const getCanvasPointerPos = (e: { clientX: number; clientY: number }) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
     const rect = canvas.getBoundingClientRect();
-    const clientX = 'touches' in e ? (e as React.TouchEvent).touches[0].clientX : (e as React.MouseEvent).clientX;
-    const clientY = 'touches' in e ? (e as React.TouchEvent).touches[0].clientY : (e as React.MouseEvent).clientY;
     
     return {
-      x: ((clientX - rect.left) / rect.width) * 100,
-      y: ((clientY - rect.top) / rect.height) * 100
+      x: ((e.clientX - rect.left) / rect.width) * 100,
+      y: ((e.clientY - rect.top) / rect.height) * 100
     };
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    const pos = getCanvasMousePos(e);
-    const elements: (keyof PosterConfig)[] = ['posLogo', 'posBrand', 'posEventName', 'posBadges', 'posHeadline', 'posSubHeadline', 'posCTA', 'posQR'];
-    
-    let closest: keyof PosterConfig | null = null;
-    let minDist = 10; 
-
-    elements.forEach(key => {
-      const item = config[key] as ElementPos;
-      if (!item || !item.visible) return;
-      
-      const dx = pos.x - item.x;
-      const dy = pos.y - item.y;
-      const d = Math.sqrt(dx * dx + dy * dy);
-      
-      if (d < minDist) {
-        minDist = d;
-        closest = key;
-      }
-    });
-    
-    if (closest) {
-      const item = config[closest] as ElementPos;
-      setSelectedElement(closest);
+  const getSurface = (): RenderSurface | null => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return null;
+    return { ctx, width: canvas.width, height: canvas.height, config, images: imageCacheRef.current };
+  };
+
+  // Corner handles resize, the detached handle above the top edge rotates
+  const getHandles = (bounds: LayerBounds) => {
+    const { x, y, w, h } = bounds;
+    return {
+      corners: [
+        { x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }
+      ].map(p => toCanvasPoint(bounds, p)),
+      rotate: toCanvasPoint(bounds, { x: x + w / 2, y: y - ROTATE_HANDLE_OFFSET })
+    };
+  };
+
+  const toCanvasPixels = (pos: { x: number; y: number }, surface: { width: number; height: number }) => ({
+    x: (pos.x / 100) * surface.width,
+    y: (pos.y / 100) * surface.height
+  });
+
+  // Starts a resize or rotate gesture when the point lands on the selected layer's handles
+  const beginHandleDrag = (surface: RenderSurface, point: { x: number; y: number }, startedAt: number) => {
+    const selected = primaryLayer;
+    if (!selected?.pos.visible) return false;
+    const near = (p: { x: number; y: number }) => Math.hypot(p.x - point.x, p.y - point.y) <= HANDLE_RADIUS * 1.5;
+    const bounds = measureLayer(surface, selected);
+    const center = { x: bounds.x + bounds.w / 2, y: bounds.y + bounds.h / 2 };
+    const handles = getHandles(bounds);
+    if (near(handles.rotate)) {
+      setActiveDrag({
+        layerId: selected.id, memberIds: [selected.id], origins: {}, mode: 'rotate', offsetX: 0, offsetY: 0, startedAt, center,
+        startRotation: selected.pos.rotation ?? 0,
+        startAngle: Math.atan2(point.y - center.y, point.x - center.x)
+      });
+      return true;
+    }
+    if (handles.corners.some(near)) {
       setActiveDrag({
-        key: closest,
-        offsetX: pos.x - item.x,
-        offsetY: pos.y - item.y
+        layerId: selected.id, memberIds: [selected.id], origins: {}, mode: 'resize', offsetX: 0, offsetY: 0, startedAt, center,
+        startScale: selected.pos.scale,
+        startDistance: Math.max(1, Math.hypot(point.x - center.x, point.y - center.y))
       });
-      e.preventDefault();
-    } else {
-      setSelectedElement(null);
+      return true;
+    }
+    return false;
+  };
+
+  // Selecting a grouped layer pulls in its whole group; additive selection toggles membership
+  const selectLayers = (ids: string[], additive = false) => {
+    const expanded = expandGroups(config, ids);
+    if (!additive) {
+      setSelectedIds(expanded);
+      return expanded;
+    }
+    const allSelected = expanded.every(id => selectedIds.includes(id));
+    const next = allSelected
+      ? selectedIds.filter(id => !expanded.includes(id))
+      : [...selectedIds, ...expanded.filter(id => !selectedIds.includes(id))];
+    setSelectedIds(next);
+    return next;
+  };
+
+  const beginMove = (layer: PosterLayer, pos: { x: number; y: number }, memberIds: string[]) => {
+    const origins: DragState['origins'] = {};
+    config.layers.forEach(l => { if (memberIds.includes(l.id)) origins[l.id] = { x: l.pos.x, y: l.pos.y }; });
+    setActiveDrag({
+      layerId: layer.id,
+      memberIds,
+      origins,
+      mode: 'move',
+      offsetX: pos.x - layer.pos.x,
+      offsetY: pos.y - layer.pos.y,
+      startedAt: Date.now()
+    });
+  };
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) clearTimeout(longPressRef.current.timer);
+    longPressRef.current = null;
+  };
+
+  // Two fingers on the canvas scale and rotate the selected layer around its center
+  const beginPinch = () => {
+    const layer = primaryLayer;
+    const [a, b] = [...pointersRef.current.values()];
+    const canvas = canvasRef.current;
+    if (!layer || !a || !b || !canvas) return;
+    const pa = toCanvasPixels(a, canvas);
+    const pb = toCanvasPixels(b, canvas);
+    setActiveDrag(null);
+    setMarquee(null);
+    setPinch({
+      layerId: layer.id,
+      startedAt: Date.now(),
+      startDistance: Math.max(1, Math.hypot(pb.x - pa.x, pb.y - pa.y)),
+      startAngle: Math.atan2(pb.y - pa.y, pb.x - pa.x),
+      startScale: layer.pos.scale,
+      startRotation: layer.pos.rotation ?? 0
+    });
+  };
+
+  const updatePinch = () => {
+    const layer = pinch && findLayer(config, pinch.layerId);
+    const [a, b] = [...pointersRef.current.values()];
+    const canvas = canvasRef.current;
+    if (!pinch || !layer || !a || !b || !canvas) return;
+    const pa = toCanvasPixels(a, canvas);
+    const pb = toCanvasPixels(b, canvas);
+    const distance = Math.hypot(pb.x - pa.x, pb.y - pa.y);
+    const angle = Math.atan2(pb.y - pa.y, pb.x - pa.x);
+    const scale = Math.round(Math.max(MIN_SCALE, Math.min(MAX_SCALE, pinch.startScale * distance / pinch.startDistance)) * 100) / 100;
+    const rotation = ((Math.round(pinch.startRotation + ((angle - pinch.startAngle) * 180) / Math.PI) + 540) % 360) - 180;
+    if (scale === layer.pos.scale && rotation === (layer.pos.rotation ?? 0)) return;
+    setConfig(prev => updateLayerPos(prev, layer.id, { scale, rotation }), {
+      label: `Transform ${layer.name}`,
+      coalesce: `pinch:${layer.id}:${pinch.startedAt}`
+    });
+  };
+
+  const updateMarquee = (m: MarqueeState) => {
+    const surface = getSurface();
+    if (!surface) return;
+    const box = marqueeBox(m);
+    const inside = config.layers.filter(l => {
+      if (!l.pos.visible) return false;
+      const b = axisAlignedBounds(measureLayer(surface, l));
+      return b.x < box.x + box.w && box.x < b.x + b.w && b.y < box.y + box.h && box.y < b.y + b.h;
+    }).map(l => l.id);
+    const expanded = expandGroups(config, inside);
+    setMarquee(m);
+    setSelectedIds([...m.baseIds, ...expanded.filter(id => !m.baseIds.includes(id))]);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const surface = getSurface();
+    if (!surface) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const pos = getCanvasPointerPos(e);
+    pointersRef.current.set(e.pointerId, pos);
+    e.preventDefault();
+
+    if (brushing) {
+      setBrushStrokes(prev => [...prev, { size: brush.size, points: [pos] }]);
+      return;
+    }
+
+    if (pointersRef.current.size === 2) {
+      cancelLongPress();
+      beginPinch();
+      return;
+    }
+    if (pointersRef.current.size > 2) return;
+
+    const point = toCanvasPixels(pos, surface);
+    if (!e.shiftKey && beginHandleDrag(surface, point, Date.now())) return;
+
+    const hit = hitTestLayers(surface, point, HIT_TOLERANCE);
+    if (!hit) {
+      if (e.pointerType === 'touch') {
+        setSelectedIds([]);
+        return;
+      }
+      // Dragging across empty canvas draws a selection rectangle; Shift adds to the selection
+      const baseIds = e.shiftKey ? selectedIds : [];
+      setSelectedIds(baseIds);
+      setMarquee({ origin: point, current: point, baseIds });
+      return;
+    }
+
+    // On touch screens only the already-selected layer drags straight away, so a stray
+    // swipe across the poster cannot move anything; other layers need a long press
+    if (e.pointerType === 'touch' && !selectedIds.includes(hit.id)) {
+      cancelLongPress();
+      longPressRef.current = {
+        pointerId: e.pointerId,
+        layerId: hit.id,
+        origin: pos,
+        timer: window.setTimeout(() => {
+          const pending = longPressRef.current;
+          longPressRef.current = null;
+          const current = pending && pointersRef.current.get(pending.pointerId);
+          if (!pending || !current) return;
+          navigator.vibrate?.(10);
+          beginMove(hit, current, selectLayers([hit.id]));
+        }, LONG_PRESS_MS)
+      };
+      return;
+    }
+
+    if (e.shiftKey) {
+      const next = selectLayers([hit.id], true);
+      if (next.includes(hit.id)) beginMove(hit, pos, next);
+      return;
     }
+    const members = selectedIds.includes(hit.id) ? selectedIds : selectLayers([hit.id]);
+    beginMove(hit, pos, members);
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!pointersRef.current.has(e.pointerId)) return;
+    const pos = getCanvasPointerPos(e);
+    pointersRef.current.set(e.pointerId, pos);
+
+    if (brushing) {
+      setBrushStrokes(prev => prev.length
+        ? [...prev.slice(0, -1), { ...prev[prev.length - 1], points: [...prev[prev.length - 1].points, pos] }]
+        : prev);
+      return;
+    }
+
+    if (pinch) {
+      updatePinch();
+      return;
+    }
+
+    if (marquee) {
+      const canvas = canvasRef.current;
+      if (canvas) updateMarquee({ ...marquee, current: toCanvasPixels(pos, canvas) });
+      return;
+    }
+
+    const pending = longPressRef.current;
+    if (pending && pending.pointerId === e.pointerId
+      && Math.hypot(pos.x - pending.origin.x, pos.y - pending.origin.y) > LONG_PRESS_SLOP) {
+      cancelLongPress();
+    }
+
     if (!activeDrag) return;
-    const pos = getCanvasMousePos(e);
+    const layer = findLayer(config, activeDrag.layerId);
+    const canvas = canvasRef.current;
+    if (!layer || !canvas) return;
+    const point = toCanvasPixels(pos, canvas);
+    const meta = { coalesce: `${activeDrag.mode}:${activeDrag.memberIds.join(',')}:${activeDrag.startedAt}` };
+
+    if (activeDrag.mode === 'resize' && activeDrag.center && activeDrag.startScale && activeDrag.startDistance) {
+      const distance = Math.hypot(point.x - activeDrag.center.x, point.y - activeDrag.center.y);
+      const scale = Math.round(Math.max(MIN_SCALE, Math.min(MAX_SCALE, activeDrag.startScale * distance / activeDrag.startDistance)) * 100) / 100;
+      if (scale === layer.pos.scale) return;
+      setConfig(prev => updateLayerPos(prev, layer.id, { scale }), { ...meta, label: `Resize ${layer.name}` });
+      return;
+    }
+
+    if (activeDrag.mode === 'rotate' && activeDrag.center && activeDrag.startAngle !== undefined) {
+      const angle = Math.atan2(point.y - activeDrag.center.y, point.x - activeDrag.center.x);
+      let rotation = (activeDrag.startRotation ?? 0) + ((angle - activeDrag.startAngle) * 180) / Math.PI;
+      rotation = e.shiftKey ? Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP : Math.round(rotation);
+      rotation = ((rotation + 540) % 360) - 180;
+      if (rotation === (layer.pos.rotation ?? 0)) return;
+      setConfig(prev => updateLayerPos(prev, layer.id, { rotation }), { ...meta, label: `Rotate ${layer.name}` });
+      return;
+    }
     
     let newX = pos.x - activeDrag.offsetX;
     let newY = pos.y - activeDrag.offsetY;
+    let snappedX = false;
+    let snappedY = false;
+    let nextGuides: SnapGuide[] = [];
+    const members = config.layers.filter(l => activeDrag.memberIds.includes(l.id));
 
-    newX = Math.round(newX / SNAP_SIZE) * SNAP_SIZE;
-    newY = Math.round(newY / SNAP_SIZE) * SNAP_SIZE;
+    const surface = getSurface();
+    if (!e.altKey && smartGuides && surface) {
+      // The whole selection snaps as one box
+      const box = unionBox(members.map(l => axisAlignedBounds(measureLayer(surface, l))));
+      const moving = {
+        ...box,
+        x: box.x + ((newX - layer.pos.x) / 100) * surface.width,
+        y: box.y + ((newY - layer.pos.y) / 100) * surface.height
+      };
+      const targets = config.layers
+        .filter(l => !activeDrag.memberIds.includes(l.id) && l.pos.visible)
+        .map(l => axisAlignedBounds(measureLayer(surface, l)));
+      const snap = computeSnap(moving, targets, { x: 0, y: 0, w: surface.width, h: surface.height }, SNAP_THRESHOLD);
+      newX += (snap.dx / surface.width) * 100;
+      newY += (snap.dy / surface.height) * 100;
+      ({ snappedX, snappedY } = snap);
+      nextGuides = snap.guides;
+    }
+    setGuides(nextGuides);
 
-    newX = Math.max(0, Math.min(100, newX));
-    newY = Math.max(0, Math.min(100, newY));
-    
-    setConfig(prev => ({
-      ...prev,
-      [activeDrag.key]: { 
-        ...(prev[activeDrag.key] as ElementPos), 
-        x: newX, 
-        y: newY
-      }
-    }));
-  };
-
-  const wrapText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
-    const words = text.split(' ');
-    let line = '';
-    let curY = y;
-    for (let n = 0; n < words.length; n++) {
-      const testLine = line + words[n] + ' ';
-      if (ctx.measureText(testLine).width > maxWidth && n > 0) {
-        ctx.fillText(line, x, curY);
-        line = words[n] + ' ';
-        curY += lineHeight;
-      } else {
-        line = testLine;
-      }
+    if (!e.altKey && gridSize > 0) {
+      if (!snappedX) newX = Math.round(newX / gridSize) * gridSize;
+      if (!snappedY) newY = Math.round(newY / gridSize) * gridSize;
+    }
+
+    newX = Math.round(Math.max(0, Math.min(100, newX)) * 10) / 10;
+    newY = Math.round(Math.max(0, Math.min(100, newY)) * 10) / 10;
+
+    if (layer.pos.x === newX && layer.pos.y === newY) return;
+
+    const origin = activeDrag.origins[layer.id];
+    const dx = newX - origin.x;
+    const dy = newY - origin.y;
+    const label = members.length > 1 ? `Move ${members.length} Layers` : `Move ${layer.name}`;
+    setConfig(prev => activeDrag.memberIds.reduce((next, id) => {
+      const start = activeDrag.origins[id];
+      return start ? updateLayerPos(next, id, {
+        x: Math.round(Math.max(0, Math.min(100, start.x + dx)) * 10) / 10,
+        y: Math.round(Math.max(0, Math.min(100, start.y + dy)) * 10) / 10
+      }) : next;
+    }, prev), { ...meta, label });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    const pending = longPressRef.current;
+    if (pending?.pointerId === e.pointerId) {
+      // Released before the long press fired: treat it as a tap that only selects
+      cancelLongPress();
+      if (e.type === 'pointerup') selectLayers([pending.layerId]);
+    }
+    if (pointersRef.current.size < 2) setPinch(null);
+    if (pointersRef.current.size === 0) {
+      setActiveDrag(null);
+      setMarquee(null);
+      setGuides([]);
     }
-    ctx.fillText(line, x, curY);
   };
 
-  const getFontStyle = (pos: ElementPos, baseSize: number, canvasWidth: number) => {
-    const italic = pos.italic ? 'italic ' : '';
-    const bold = pos.bold ? 'bold ' : '';
-    return `${italic}${bold}${canvasWidth * baseSize * pos.scale}px Inter`;
+  const alignContext = () => {
+    const surface = getSurface();
+    if (!surface) return null;
+    return {
+      canvas: { x: 0, y: 0, w: surface.width, h: surface.height },
+      boundsOf: (layer: PosterLayer) => axisAlignedBounds(measureLayer(surface, layer))
+    };
+  };
+
+  const handleAlign = (edge: AlignEdge) => {
+    const context = alignContext();
+    if (!context || selectedIds.length === 0) return;
+    setConfig(prev => alignLayers(prev, selectedIds, edge, context), { label: `Align ${edge}` });
+  };
+
+  const handleDistribute = (axis: DistributeAxis) => {
+    const context = alignContext();
+    if (!context) return;
+    setConfig(prev => distributeLayers(prev, selectedIds, axis, context), { label: `Distribute ${axis}` });
+  };
+
+  const selectionLabel = () => selectedIds.length === 1 ? findLayer(config, selectedIds[0])?.name ?? 'Layer' : `${selectedIds.length} Layers`;
+
+  const handleGroup = () => {
+    if (selectedIds.length < 2) return;
+    setConfig(prev => groupLayers(prev, selectedIds), { label: `Group ${selectedIds.length} Layers` });
+  };
+
+  const handleUngroup = () => {
+    if (selectedIds.length === 0) return;
+    setConfig(prev => ungroupLayers(prev, selectedIds), { label: `Ungroup ${selectionLabel()}` });
+  };
+
+  const handleHideSelection = () => {
+    if (selectedIds.length === 0) return;
+    setConfig(prev => updateLayersPos(prev, selectedIds, () => ({ visible: false })), { label: `Hide ${selectionLabel()}` });
+    setSelectedIds([]);
+  };
+
+  const handleNudge = (dx: number, dy: number) => {
+    if (selectedIds.length === 0) return;
+    const clamp = (v: number) => Math.round(Math.max(0, Math.min(100, v)) * 10) / 10;
+    setConfig(prev => updateLayersPos(prev, selectedIds, pos => ({ x: clamp(pos.x + dx), y: clamp(pos.y + dy) })), {
+      label: `Nudge ${selectionLabel()}`,
+      coalesce: `nudge:${selectedIds.join(',')}`
+    });
+  };
+
+  const handleCopyStyle = () => {
+    if (primaryLayer) setStyleClipboard(extractStyle(primaryLayer));
+  };
+
+  const handlePasteStyle = () => {
+    if (!styleClipboard || selectedIds.length === 0) return;
+    setConfig(prev => pasteStyle(prev, selectedIds, styleClipboard), { label: `Paste Style on ${selectionLabel()}` });
   };
 
-  const drawCanvas = useCallback((isExporting = false) => {
+  const renderAssets = (): RenderAssets => ({ background: bgImgRef.current, images: imageCacheRef.current });
+
+  // The poster canvas holds only what gets exported; editor chrome lives on the overlay above it
+  const drawPoster = useCallback(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = POSTER_WIDTH;
+    canvas.height = posterHeight(config.aspectRatio);
+    renderPoster(ctx, config, renderAssets(), { width: canvas.width, height: canvas.height });
+  }, [config]);
 
-    const [wRatio, hRatio] = config.aspectRatio.split(':').map(Number);
-    canvas.width = 1080;
-    canvas.height = (1080 / wRatio) * hRatio;
+  const drawOverlay = useCallback(() => {
+    const canvas = overlayRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    canvas.width = POSTER_WIDTH;
+    canvas.height = posterHeight(config.aspectRatio);
 
     const px = (pct: number) => (pct / 100) * canvas.width;
     const py = (pct: number) => (pct / 100) * canvas.height;
+    const surface: RenderSurface = { ctx, width: canvas.width, height: canvas.height, config, images: imageCacheRef.current };
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    if (bgImgRef.current && bgImgRef.current.complete) {
-      ctx.drawImage(bgImgRef.current, 0, 0, canvas.width, canvas.height);
-    } else {
-      const grad = ctx.createLinearGradient(0, 0, 0, canvas.height);
-      grad.addColorStop(0, '#0f172a');
-      grad.addColorStop(1, '#020617');
-      ctx.fillStyle = grad;
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-    }
-
-    if (!isExporting) {
-      ctx.strokeStyle = "rgba(255,255,255,0.05)";
-      ctx.lineWidth = 1;
-      for(let i=0; i<=100; i+=SNAP_SIZE) {
-        ctx.beginPath(); ctx.moveTo(px(i), 0); ctx.lineTo(px(i), canvas.height); ctx.stroke();
-        ctx.beginPath(); ctx.moveTo(0, py(i)); ctx.lineTo(canvas.width, py(i)); ctx.stroke();
-      }
+    ctx.strokeStyle = "rgba(255,255,255,0.05)";
+    ctx.lineWidth = 1;
+    for(let i=0; gridSize > 0 && i<=100; i+=gridSize) {
+      ctx.beginPath(); ctx.moveTo(px(i), 0); ctx.lineTo(px(i), canvas.height); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(0, py(i)); ctx.lineTo(canvas.width, py(i)); ctx.stroke();
     }
 
-    const drawElement = (key: keyof PosterConfig) => {
-      const pos = config[key] as ElementPos;
-      if (!pos || !pos.visible) return;
+    if (layoutIssues.length > 0) {
+      const safe = safeZone(config.aspectRatio, canvas.width, canvas.height);
+      ctx.strokeStyle = WARNING_COLOR; ctx.lineWidth = 2; ctx.setLineDash([10, 8]);
+      ctx.strokeRect(safe.x, safe.y, safe.w, safe.h);
+      ctx.lineWidth = 3;
+      config.layers.filter(l => l.pos.visible && layoutIssues.some(w => w.layerId === l.id)).forEach(layer => {
+        const { corners } = getHandles(measureLayer(surface, layer));
+        ctx.beginPath();
+        corners.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.closePath(); ctx.stroke();
+      });
+      ctx.setLineDash([]);
+    }
 
-      if (key === 'posLogo' && logoImgRef.current?.complete) {
-        const lw = (canvas.width * 0.18) * pos.scale;
-        const lh = (logoImgRef.current.height / logoImgRef.current.width) * lw;
-        ctx.drawImage(logoImgRef.current, px(pos.x), py(pos.y), lw, lh);
-        if(!isExporting && selectedElement === key) {
-          ctx.strokeStyle = "#3b82f6"; ctx.lineWidth = 4;
-          ctx.strokeRect(px(pos.x)-5, py(pos.y)-5, lw+10, lh+10);
-        }
-      } else if (key === 'posBrand') {
-        ctx.textAlign = "center";
-        ctx.fillStyle = config.colorBrand;
-        ctx.font = getFontStyle(pos, 0.04, canvas.width);
-        ctx.fillText(config.brandName.toUpperCase(), px(pos.x), py(pos.y));
-        if(!isExporting && selectedElement === key) {
-          const tw = ctx.measureText(config.brandName.toUpperCase()).width;
-          ctx.strokeStyle = "#3b82f6"; ctx.lineWidth = 4;
-          ctx.strokeRect(px(pos.x) - (tw/2) - 10, py(pos.y) - 40, tw+20, 60);
-        }
-      } else if (key === 'posEventName') {
-        ctx.textAlign = "center";
-        ctx.fillStyle = config.colorEvent;
-        ctx.font = getFontStyle(pos, 0.03, canvas.width);
-        ctx.fillText(config.eventName.toUpperCase(), px(pos.x), py(pos.y));
-        if(!isExporting && selectedElement === key) {
-          const tw = ctx.measureText(config.eventName.toUpperCase()).width;
-          ctx.strokeStyle = "#3b82f6"; ctx.lineWidth = 4;
-          ctx.strokeRect(px(pos.x) - (tw/2) - 10, py(pos.y) - 30, tw+20, 45);
-        }
-      } else if (key === 'posBadges') {
-        ctx.textAlign = "left";
-        const scale = pos.scale;
-        ctx.font = getFontStyle(pos, 0.026, canvas.width);
-        const durTxt = config.duration;
-        const prTxt = config.price;
-        
-        ctx.fillStyle = config.bgColorBadge1;
-        const dW = (ctx.measureText(durTxt).width + 34);
-        const bH = (canvas.width * 0.055) * scale;
-        ctx.beginPath(); ctx.roundRect(px(pos.x), py(pos.y), dW, bH, 10 * scale); ctx.fill();
-        ctx.fillStyle = config.colorBadges; ctx.fillText(durTxt, px(pos.x) + (17 * scale), py(pos.y) + (bH/2) + (10 * scale));
-
-        ctx.fillStyle = config.bgColorBadge2;
-        const pW = (ctx.measureText(prTxt).width + 34);
-        ctx.beginPath(); ctx.roundRect(px(pos.x) + dW + (15 * scale), py(pos.y), pW, bH, 10 * scale); ctx.fill();
-        ctx.fillStyle = config.colorBadges; ctx.fillText(prTxt, px(pos.x) + dW + (32 * scale), py(pos.y) + (bH/2) + (10 * scale));
-        
-        if(!isExporting && selectedElement === key) {
-          ctx.strokeStyle = "#3b82f6"; ctx.lineWidth = 4;
-          ctx.strokeRect(px(pos.x)-5, py(pos.y)-5, dW + pW + (15*scale) + 10, bH + 10);
-        }
-      } else if (key === 'posHeadline') {
-        ctx.textAlign = "center";
-        ctx.fillStyle = config.colorHeadline;
-        ctx.font = getFontStyle(pos, 0.08, canvas.width);
-        ctx.shadowBlur = isExporting ? 20 : 0; ctx.shadowColor = "rgba(0,0,0,0.5)";
-        ctx.fillText(config.headline, px(pos.x), py(pos.y));
-        ctx.shadowBlur = 0;
-        if(!isExporting && selectedElement === key) {
-          const tw = ctx.measureText(config.headline).width;
-          ctx.strokeStyle = "#3b82f6"; ctx.lineWidth = 4;
-          ctx.strokeRect(px(pos.x) - (tw/2) - 10, py(pos.y) - 60, tw+20, 80);
-        }
-      } else if (key === 'posSubHeadline') {
-        ctx.textAlign = "center";
-        ctx.fillStyle = config.colorSubHeadline;
-        const scale = pos.scale;
-        ctx.font = getFontStyle(pos, 0.038, canvas.width);
-        wrapText(ctx, config.subHeadline, px(pos.x), py(pos.y), canvas.width * 0.85, canvas.width * 0.055 * scale);
-        if(!isExporting && selectedElement === key) {
-          ctx.strokeStyle = "#3b82f6"; ctx.lineWidth = 4;
-          ctx.strokeRect(px(pos.x) - (canvas.width * 0.425), py(pos.y) - 30, canvas.width * 0.85, 100);
-        }
-      } else if (key === 'posQR' && qrImgRef.current?.complete) {
-        const qw = (canvas.width * 0.14) * pos.scale;
-        ctx.fillStyle = "white";
-        ctx.fillRect(px(pos.x) - (6 * pos.scale), py(pos.y) - (6 * pos.scale), qw + (12 * pos.scale), qw + (12 * pos.scale));
-        ctx.drawImage(qrImgRef.current, px(pos.x), py(pos.y), qw, qw);
-        if(!isExporting && selectedElement === key) {
-          ctx.strokeStyle = "#3b82f6"; ctx.lineWidth = 4;
-          ctx.strokeRect(px(pos.x)-10, py(pos.y)-10, qw+20, qw+20);
-        }
-      } else if (key === 'posCTA') {
-        ctx.textAlign = "center";
-        const scale = pos.scale;
-        ctx.font = getFontStyle(pos, 0.045, canvas.width);
-        const txt = config.ctaText.toUpperCase();
-        const cW = (ctx.measureText(txt).width + 80);
-        const cH = (canvas.width * 0.11) * scale;
-        
-        ctx.fillStyle = config.bgColorCTA;
-        ctx.beginPath(); ctx.roundRect(px(pos.x) - (cW/2), py(pos.y), cW, cH, 20 * scale); ctx.fill();
-        ctx.fillStyle = config.colorCTA; ctx.fillText(txt, px(pos.x), py(pos.y) + (cH/2) + (12 * scale));
-        
-        if(!isExporting && selectedElement === key) {
-          ctx.strokeStyle = "#3b82f6"; ctx.lineWidth = 4;
-          ctx.strokeRect(px(pos.x) - (cW/2) - 5, py(pos.y) - 5, cW + 10, cH + 10);
-        }
-      }
-    };
+    const selectedLayers = config.layers.filter(l => selectedIds.includes(l.id) && l.pos.visible);
+    if (selectedLayers.length > 1) {
+      ctx.strokeStyle = "#3b82f6"; ctx.lineWidth = 2;
+      selectedLayers.forEach(layer => {
+        const bounds = measureLayer(surface, layer);
+        const { corners } = getHandles(bounds);
+        ctx.beginPath();
+        corners.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.closePath(); ctx.stroke();
+      });
+      const box = unionBox(selectedLayers.map(l => axisAlignedBounds(measureLayer(surface, l))));
+      ctx.lineWidth = 3; ctx.setLineDash([12, 8]);
+      ctx.strokeRect(box.x - 6, box.y - 6, box.w + 12, box.h + 12);
+      ctx.setLineDash([]);
+    }
+
+    if (primaryLayer?.pos.visible) {
+      const bounds = measureLayer(surface, primaryLayer);
+      const { corners, rotate } = getHandles(bounds);
+      ctx.strokeStyle = "#3b82f6"; ctx.lineWidth = 4;
+      ctx.beginPath();
+      corners.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.closePath(); ctx.stroke();
+
+      const topCenter = toCanvasPoint(bounds, { x: bounds.x + bounds.w / 2, y: bounds.y });
+      ctx.lineWidth = 2;
+      ctx.beginPath(); ctx.moveTo(topCenter.x, topCenter.y); ctx.lineTo(rotate.x, rotate.y); ctx.stroke();
+
+      ctx.fillStyle = "#ffffff"; ctx.lineWidth = 3;
+      [...corners, rotate].forEach((p, i) => {
+        ctx.beginPath();
+        if (i === 4) ctx.arc(p.x, p.y, HANDLE_RADIUS * 0.8, 0, Math.PI * 2);
+        else ctx.rect(p.x - HANDLE_RADIUS / 2, p.y - HANDLE_RADIUS / 2, HANDLE_RADIUS, HANDLE_RADIUS);
+        ctx.fill(); ctx.stroke();
+      });
+    }
 
-    ['posLogo', 'posBrand', 'posEventName', 'posBadges', 'posHeadline', 'posSubHeadline', 'posQR', 'posCTA'].forEach(k => drawElement(k as keyof PosterConfig));
+    if (brushing && brushStrokes.length) {
+      ctx.globalAlpha = 0.45;
+      paintStrokes(ctx, brushStrokes, canvas.width, canvas.height, "#ec4899");
+      ctx.globalAlpha = 1;
+    }
 
-    if (!isExporting && activeDrag) {
-      const pos = config[activeDrag.key] as ElementPos;
-      ctx.strokeStyle = "rgba(59, 130, 246, 0.5)";
-      ctx.setLineDash([5, 5]);
-      ctx.beginPath(); ctx.moveTo(px(pos.x), 0); ctx.lineTo(px(pos.x), canvas.height); ctx.stroke();
-      ctx.beginPath(); ctx.moveTo(0, py(pos.y)); ctx.lineTo(canvas.width, py(pos.y)); ctx.stroke();
+    if (marquee) {
+      const box = marqueeBox(marquee);
+      ctx.fillStyle = "rgba(59,130,246,0.12)";
+      ctx.strokeStyle = "#3b82f6"; ctx.lineWidth = 2;
+      ctx.setLineDash([8, 6]);
+      ctx.fillRect(box.x, box.y, box.w, box.h);
+      ctx.strokeRect(box.x, box.y, box.w, box.h);
       ctx.setLineDash([]);
     }
 
-  }, [config, selectedElement, activeDrag]);
+    if (activeDrag?.mode === 'move') {
+      ctx.strokeStyle = GUIDE_COLOR;
+      ctx.fillStyle = GUIDE_COLOR;
+      ctx.lineWidth = 2;
+      ctx.font = "bold 20px Inter";
+      ctx.textAlign = "center";
+      guides.forEach(guide => {
+        if (guide.kind === 'align') {
+          ctx.setLineDash([8, 6]);
+          ctx.beginPath();
+          if (guide.axis === 'x') { ctx.moveTo(guide.position, guide.from); ctx.lineTo(guide.position, guide.to); }
+          else { ctx.moveTo(guide.from, guide.position); ctx.lineTo(guide.to, guide.position); }
+          ctx.stroke();
+          ctx.setLineDash([]);
+          return;
+        }
+        guide.segments.forEach(({ from, to, cross }) => {
+          const tick = 8;
+          ctx.beginPath();
+          if (guide.axis === 'x') {
+            ctx.moveTo(from, cross); ctx.lineTo(to, cross);
+            ctx.moveTo(from, cross - tick); ctx.lineTo(from, cross + tick);
+            ctx.moveTo(to, cross - tick); ctx.lineTo(to, cross + tick);
+          } else {
+            ctx.moveTo(cross, from); ctx.lineTo(cross, to);
+            ctx.moveTo(cross - tick, from); ctx.lineTo(cross + tick, from);
+            ctx.moveTo(cross - tick, to); ctx.lineTo(cross + tick, to);
+          }
+          ctx.stroke();
+          const label = `${Math.round(guide.gap)}`;
+          if (guide.axis === 'x') ctx.fillText(label, (from + to) / 2, cross - 12);
+          else ctx.fillText(label, cross + 28, (from + to) / 2 + 7);
+        });
+      });
+    }
+
+  }, [config, selectedIds, primaryLayer, marquee, activeDrag, guides, gridSize, layoutIssues, brushing, brushStrokes]);
 
   useEffect(() => {
-    const l = new Image(); l.crossOrigin = "anonymous"; l.src = config.logoUrl;
-    l.onload = () => { logoImgRef.current = l; drawCanvas(); };
-    l.onerror = () => drawCanvas();
-    if (config.qrUrl) {
-      const q = new Image(); q.crossOrigin = "anonymous"; q.src = config.qrUrl;
-      q.onload = () => { qrImgRef.current = q; drawCanvas(); };
-      q.onerror = () => drawCanvas();
-    }
-  }, [config.logoUrl, config.qrUrl, drawCanvas]);
-
-  const handleGenerate = async () => {
-    setIsGenerating(true);
+    const sources = new Set<string>(imageSources(config));
+    const cache = imageCacheRef.current;
+    cache.forEach((_, src) => { if (!sources.has(src)) cache.delete(src); });
+    sources.forEach(src => {
+      if (cache.has(src)) return;
+      const img = new Image(); img.crossOrigin = "anonymous";
+      cache.set(src, img);
+      img.onload = () => drawPoster();
+      img.onerror = () => drawPoster();
+      img.src = src;
+    });
+  }, [config, drawPoster]);
+
+  // Web and uploaded fonts arrive asynchronously; redraw and re-check text fit once the design's faces are ready
+  useEffect(() => {
+    let cancelled = false;
+    loadFonts(config).then(() => {
+      if (cancelled) return;
+      drawPoster();
+      setLayoutIssues(layoutWarnings(createSurface(config, imageCacheRef.current)));
+    });
+    return () => { cancelled = true; };
+  }, [config, drawPoster]);
+
+  const loadBackground = (src: string | null) => new Promise<void>((resolve, reject) => {
+    setBgSrc(src);
+    if (!src) {
+      bgImgRef.current = null;
+      setBgSize(null);
+      drawPoster();
+      resolve();
+      return;
+    }
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      bgImgRef.current = img;
+      setBgSize({ width: img.naturalWidth, height: img.naturalHeight });
+      drawPoster();
+      resolve();
+    };
+    img.onerror = () => reject(new Error("Failed to load image."));
+    img.src = src;
+  });
+
+  const runImageJob = async (job: () => Promise<string>) => {
+    setIsGenerating(true); setErrorMsg(null);
     try {
-      const data = await generatePosterBackground(config.theme, config.aspectRatio);
+      const data = await job();
       if (!data) throw new Error("No image data received");
-      const img = new Image();
-      img.crossOrigin = "anonymous";
-      img.onload = () => {
-        bgImgRef.current = img;
-        drawCanvas();
-        setIsGenerating(false);
-      };
-      img.onerror = () => setIsGenerating(false);
-      img.src = data;
+      await loadBackground(data);
     } catch (e) {
       console.error(e);
+      setErrorMsg(e instanceof Error ? e.message : "Image generation failed.");
+    } finally {
       setIsGenerating(false);
     }
   };
 
-  const updateScale = (key: keyof PosterConfig, scaleValue: string) => {
+  const keepBackgrounds = (entries: GeneratedBackground[]) => setBackgroundHistory(prev => addBackgrounds(prev, entries));
+
+  // All candidates land in the gallery and the first one goes on the poster; the previous one stays a click away
+  const handleGenerate = () => runImageJob(async () => {
+    const candidates = await generateCandidates(imageProvider, providerSettings, config.theme, generationRequest, candidateCount, backgroundHistory);
+    keepBackgrounds(candidates);
+    return candidates[0].src;
+  });
+
+  // The gallery entry on the poster, when it came from the engine rather than an upload
+  const currentBackground = bgSrc ? backgroundHistory.find(entry => entry.src === bgSrc) : undefined;
+
+  const handleEditBackground = (instruction: string) => {
+    if (!bgSrc) return;
+    runImageJob(async () => {
+      const src = await imageProvider.edit({ image: bgSrc, prompt: instruction, aspectRatio: config.aspectRatio });
+      keepBackgrounds([createBackground(src, 'edited', instruction, config.aspectRatio, providerSettings, currentBackground?.id)]);
+      return src;
+    });
+  };
+
+  // Strokes are in poster coordinates, so the mask is mapped through the crop the poster shows
+  const handleInpaintBackground = (prompt: string) => {
+    if (!bgSrc || !brushStrokes.length) return;
+    runImageJob(async () => {
+      const mask = await brushMask(brushStrokes, bgSrc, aspectValue(config.aspectRatio));
+      const src = await imageProvider.inpaint({ image: bgSrc, mask, prompt });
+      keepBackgrounds([createBackground(src, 'inpainted', prompt, currentBackground?.aspectRatio ?? config.aspectRatio, providerSettings, currentBackground?.id)]);
+      setBrushStrokes([]);
+      return src;
+    });
+  };
+
+  const handleVaryBackground = () => {
+    if (!bgSrc) return;
+    runImageJob(async () => {
+      const variations = await generateVariations(
+        imageProvider, providerSettings, bgSrc, currentBackground,
+        { prompt: config.theme, aspectRatio: config.aspectRatio }, candidateCount, backgroundHistory
+      );
+      keepBackgrounds(variations);
+      return variations[0].src;
+    });
+  };
+
+  // Reuses an earlier extension (or the original) for the ratio when there is one, so switching back and forth stays free
+  const extendBackground = (ratio: AspectRatio) => {
+    if (!bgSrc) return;
+    const existing = currentBackground && findExtension(backgroundHistory, currentBackground, ratio);
+    if (existing) {
+      handleSelectBackground(existing);
+      return;
+    }
+    const scene = currentBackground?.prompt ?? config.theme;
+    runImageJob(async () => {
+      const src = await imageProvider.outpaint({ image: bgSrc, aspectRatio: ratio, prompt: scene });
+      keepBackgrounds([createBackground(src, 'outpainted', scene, ratio, providerSettings, currentBackground?.id)]);
+      return src;
+    });
+  };
+
+  const handleUpscaleBackground = () => {
+    if (!bgSrc) return;
+    runImageJob(async () => {
+      const src = await imageProvider.upscale({ image: bgSrc, factor: 2 });
+      keepBackgrounds([createBackground(src, 'upscaled', currentBackground?.prompt ?? config.theme, config.aspectRatio, providerSettings, currentBackground?.id)]);
+      return src;
+    });
+  };
+
+  // Brush strokes belong to the format they were painted on
+  const selectFormat = (ratio: AspectRatio) => {
+    setConfig(prev => ({ ...prev, aspectRatio: ratio }), { label: `Aspect ${ratio}` });
+    setBrushStrokes([]);
+    if (autoExtend && bgSize && !matchesAspect(bgSize.width, bgSize.height, ratio)) extendBackground(ratio);
+  };
+
+  const handleSelectBackground = (entry: GeneratedBackground) => {
+    setErrorMsg(null);
+    loadBackground(entry.src).catch(() => setErrorMsg("Could not load that background."));
+  };
+
+  const handleProviderChange = (settings: ImageProviderSettings) => {
+    setProviderSettings(settings);
+    saveImageProviderSettings(settings).catch(err => console.warn("Could not save the image engine:", err));
+  };
+
+  const refreshLibrary = async () => {
+    try {
+      setDesigns(await listDesigns());
+    } catch (err) {
+      console.warn("Design library unavailable:", err);
+    }
+  };
+
+  // Marks the given state as already persisted so opening a design does not bump its timestamp
+  // History entries are compared by id and pin so the images themselves are not serialized on every edit
+  const snapshotOf = (cfg: PosterConfig, background: string | null, history: GeneratedBackground[]) =>
+    JSON.stringify([cfg, background, history.map(entry => `${entry.id}:${entry.pinned}`)]);
+
+  const applyProject = (id: string, project: PosterProject) => {
+    const background = resolveProjectAsset(project.assets.background);
+    lastSavedRef.current = snapshotOf(project.config, background, project.assets.backgroundHistory);
+    setDesignId(id);
+    setSelectedIds([]);
+    setBackgroundHistory(project.assets.backgroundHistory);
+    setBrushStrokes([]);
+    resetHistory(project.config);
+    loadBackground(background).catch(() => setErrorMsg("Could not load the project background."));
+  };
+
+  const handleOpenDesign = async (id: string) => {
+    try {
+      const design = await getDesign(id);
+      if (design) applyProject(design.id, upgradeProject(design.project));
+    } catch (err) {
+      console.error("Design open failed:", err);
+      setErrorMsg(err instanceof Error ? err.message : "Could not open that design.");
+    }
+  };
+
+  // A new design keeps the current brand and starts from its defaults
+  const handleNewDesign = () => {
+    lastSavedRef.current = null;
+    setDesignId(createDesignId());
+    setSelectedIds([]);
+    resetHistory(activeKit ? applyBrandDefaults(DEFAULT_POSTER_CONFIG, activeKit) : DEFAULT_POSTER_CONFIG, 'New Design');
+    setBackgroundHistory([]);
+    setBrushStrokes([]);
+    loadBackground(null);
+  };
+
+  const runLibraryAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      console.error("Library action failed:", err);
+      setErrorMsg(err instanceof Error ? err.message : "The library could not be updated.");
+    }
+    refreshLibrary();
+  };
+
+  const handleRenameDesign = (id: string, name: string) => runLibraryAction(() => renameDesign(id, name));
+
+  const handleDuplicateDesign = (id: string) => runLibraryAction(() => duplicateDesign(id));
+
+  const handleDeleteDesign = (id: string) => runLibraryAction(async () => {
+    await deleteDesign(id);
+    if (id === designId) handleNewDesign();
+  });
+
+  const handleSaveProject = () => {
+    downloadProject(createProject(designConfig, bgSrc, undefined, backgroundHistory));
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setErrorMsg(null);
+    try {
+      const project = await readProjectFile(file);
+      applyProject(createDesignId(), project);
+      // Imported files become a new library entry on the next autosave
+      lastSavedRef.current = null;
+    } catch (err) {
+      console.error("Project open failed:", err);
+      setErrorMsg(err instanceof Error ? err.message : "Could not open that project.");
+    }
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const lastId = await getLastDesignId();
+        const last = lastId ? await getDesign(lastId) : undefined;
+        if (last) {
+          applyProject(last.id, upgradeProject(last.project));
+        } else {
+          setDesignId(createDesignId());
+        }
+      } catch (err) {
+        console.warn("Could not restore the last session:", err);
+        setDesignId(createDesignId());
+      }
+      await refreshLibrary();
+      try {
+        setBrandKits(await listBrandKits());
+      } catch (err) {
+        console.warn("Brand kits unavailable:", err);
+      }
+      try {
+        const saved = await getImageProviderSettings();
+        if (saved) setProviderSettings(saved);
+      } catch (err) {
+        console.warn("Image engine settings unavailable:", err);
+      }
+      setIsHydrated(true);
+    })();
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated || !designId) return;
+    setLastDesignId(designId).catch(() => {});
+  }, [designId, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated || !designId) return;
+    const snapshot = snapshotOf(designConfig, bgSrc, backgroundHistory);
+    if (snapshot === lastSavedRef.current) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const existing = await getDesign(designId);
+        const now = new Date().toISOString();
+        const name = existing?.name ?? (designConfig.eventName || 'Untitled Poster');
+        await saveDesign({
+          id: designId,
+          name,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+          thumbnail: canvasRef.current ? createThumbnail(canvasRef.current) : null,
+          project: createProject(designConfig, bgSrc, name, backgroundHistory)
+        });
+        lastSavedRef.current = snapshot;
+        refreshLibrary();
+      } catch (err) {
+        console.warn("Autosave failed:", err);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [designConfig, bgSrc, backgroundHistory, designId, isHydrated]);
+
+  const persistBrandKit = (kit: BrandKit) => {
+    setBrandKits(prev => prev.some(k => k.id === kit.id) ? prev.map(k => k.id === kit.id ? kit : k) : [...prev, kit]);
+    saveBrandKit(kit).catch((err: unknown) => {
+      console.error("Brand kit save failed:", err);
+      setErrorMsg(err instanceof Error ? err.message : "Could not save the brand kit.");
+    });
+  };
+
+  // Saved presets become the design's style too, so it reads as that preset rather than an edited one
+  const handleSavePromptStyle = (name: string) => {
+    if (!activeKit) return;
+    const preset = createStylePreset(name, config.promptStyle);
+    persistBrandKit({ ...activeKit, stylePresets: [...(activeKit.stylePresets ?? []), preset], updatedAt: new Date().toISOString() });
+    setConfig(prev => ({ ...prev, promptStyle: preset }), { label: 'Save Prompt Style' });
+  };
+
+  const handleDeletePromptStyle = (id: string) => {
+    if (!activeKit) return;
+    persistBrandKit({ ...activeKit, stylePresets: (activeKit.stylePresets ?? []).filter(p => p.id !== id), updatedAt: new Date().toISOString() });
+  };
+
+  const handleSelectBrand = (id: string | null) => {
+    const kit = brandKits.find(k => k.id === id);
+    setConfig(prev => ({ ...prev, brandKitId: id }), { label: kit ? `Use ${kit.name} Brand` : 'Remove Brand' });
+  };
+
+  const handleCreateBrand = () => {
+    const kit = createBrandKit(`${designConfig.brandName || 'New'} Brand`, designConfig);
+    persistBrandKit(kit);
+    setDesignConfig(prev => ({ ...prev, brandKitId: kit.id }), { label: `Use ${kit.name} Brand` });
+  };
+
+  const handleSaveBrand = (kit: BrandKit) => {
+    persistBrandKit(kit);
+    if (kit.locked && kit.id === designConfig.brandKitId) {
+      setDesignConfig(prev => enforceBrandColors(prev, kit), { label: 'Apply Brand Palette' });
+    }
+  };
+
+  const handleDeleteBrand = async (kit: BrandKit) => {
+    try {
+      await deleteBrandKit(kit.id);
+      setBrandKits(prev => prev.filter(k => k.id !== kit.id));
+      if (designConfig.brandKitId === kit.id) setDesignConfig(prev => ({ ...prev, brandKitId: null }), { label: 'Remove Brand' });
+    } catch (err) {
+      console.error("Brand kit delete failed:", err);
+      setErrorMsg(err instanceof Error ? err.message : "Could not delete that brand kit.");
+    }
+  };
+
+  const handleApplyBrandDefaults = (kit: BrandKit) => {
+    setSelectedIds([]);
+    setDesignConfig(prev => {
+      const next = applyBrandDefaults(prev, kit);
+      return kit.locked ? enforceBrandColors(next, kit) : next;
+    }, { label: `Apply ${kit.name} Defaults` });
+  };
+
+  const handleCaptureBrandDefaults = (kit: BrandKit) => {
+    handleSaveBrand({ ...kit, defaults: captureBrandDefaults(designConfig), updatedAt: new Date().toISOString() });
+  };
+
+  const handleSnapBrandColors = (kit: BrandKit) => {
+    setDesignConfig(prev => enforceBrandColors(prev, kit), { label: 'Snap to Brand Palette' });
+  };
+
+  const handleAddBrandLogo = async (kit: BrandKit, file: File) => {
+    const src = await readFileAsDataUrl(file);
+    const name = file.name.replace(/\.[^.]+$/, '') || 'Logo';
+    handleSaveBrand({ ...kit, logos: [...kit.logos, { id: createBrandItemId('logo'), name, src }], updatedAt: new Date().toISOString() });
+  };
+
+  const updateScale = (layer: PosterLayer, scaleValue: string) => {
     const val = parseFloat(scaleValue);
-    setConfig(prev => ({
-      ...prev,
-      [key]: { ...(prev[key] as ElementPos), scale: val }
-    }));
-  };
-
-  const toggleStyle = (key: keyof PosterConfig, style: 'bold' | 'italic') => {
-    setConfig(prev => {
-      const current = prev[key] as ElementPos;
-      return {
-        ...prev,
-        [key]: { ...current, [style]: !current[style] }
-      };
+    setConfig(prev => updateLayerPos(prev, layer.id, { scale: val }), { label: `Scale ${layer.name}`, coalesce: `scale:${layer.id}` });
+  };
+
+  const updateRotation = (layer: PosterLayer, value: string) => {
+    const rotation = parseFloat(value);
+    setConfig(prev => updateLayerPos(prev, layer.id, { rotation }), { label: `Rotate ${layer.name}`, coalesce: `rotation:${layer.id}` });
+  };
+
+  const updateField = (key: CampaignField | 'theme', value: string) => {
+    setConfig(prev => ({ ...prev, [key]: value }), { label: `Edit ${FIELD_LABELS[key]}`, coalesce: `field:${key}` });
+  };
+
+  // Style edits (colors, content) coalesce per layer and property so a color drag is one step
+  const patchLayer = <T extends PosterLayer>(layer: T, patch: Partial<T>, label: string) => {
+    const property = Object.keys(patch).join(',');
+    setConfig(prev => updateLayer<T>(prev, layer.id, patch), { label: `${label} ${layer.name}`, coalesce: `layer:${layer.id}:${property}` });
+  };
+
+  const toggleVisibility = (layer: PosterLayer) => {
+    setConfig(prev => updateLayerPos(prev, layer.id, { visible: !layer.pos.visible }), { label: `Toggle ${layer.name}` });
+  };
+
+  const toggleStyle = (layer: PosterLayer, style: 'bold' | 'italic') => {
+    // Bold follows the effective weight, so a Semibold layer toggles off; an explicit weight gives way to 400/700
+    if (style === 'bold' && isTextual(layer)) {
+      const bold = !isBold(layer);
+      setConfig(prev => updateLayer<TextualLayer>(updateLayerPos(prev, layer.id, { bold }), layer.id, { fontWeight: undefined }), {
+        label: `Bold ${layer.name}`
+      });
+      return;
+    }
+    setConfig(prev => updateLayerPos(prev, layer.id, { [style]: !layer.pos[style] }), {
+      label: `${style === 'bold' ? 'Bold' : 'Italic'} ${layer.name}`
     });
   };
 
-  const handleExport = () => {
-    drawCanvas(true);
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const link = document.createElement('a');
-    link.download = `aaiena-poster-${Date.now()}.png`;
-    link.href = canvas.toDataURL('image/png', 1.0);
-    link.click();
-    setTimeout(() => drawCanvas(false), 100);
+  // Uploaded fonts are embedded in the design; a clashing family name gets a numbered suffix
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>, layer: TextualLayer) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const font = await readFontFile(file);
+      const taken = (family: string) => designConfig.customFonts.some(f => f.family === family);
+      let family = font.family;
+      for (let n = 2; taken(family); n++) family = `${font.family} ${n}`;
+      setConfig(prev => updateLayer<TextualLayer>(
+        { ...prev, customFonts: [...prev.customFonts, { ...font, family }] },
+        layer.id,
+        { fontFamily: family, fontWeight: undefined }
+      ), { label: 'Upload Font' });
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(err instanceof Error ? err.message : "Could not load that font.");
+    }
+  };
+
+  const handleAddLayer = (type: LayerType) => {
+    const layer = createLayer(type, config.layers);
+    setConfig(prev => addLayer(prev, layer), { label: `Add ${layer.name}` });
+    setSelectedIds([layer.id]);
+  };
+
+  const handleDeleteLayer = (layer: PosterLayer) => {
+    setConfig(prev => removeLayer(prev, layer.id), { label: `Delete ${layer.name}` });
+    setSelectedIds(ids => ids.filter(id => id !== layer.id));
   };
 
+  const handleMoveLayer = (layer: PosterLayer, step: number) => {
+    setConfig(prev => moveLayer(prev, layer.id, step), { label: `${step > 0 ? 'Raise' : 'Lower'} ${layer.name}` });
+  };
+
+  // Opens the export dialog once images are ready, with a coarse check of how print-safe the colors are
+  const handleExport = async () => {
+    setErrorMsg(null);
+    try {
+      const images = imageCacheRef.current;
+      await preloadImages(images, imageSources(config));
+      await loadFonts(config);
+      setExportGamut(outOfGamutShare(renderPosterCanvas(config, renderAssets(), { width: GAMUT_SAMPLE_WIDTH })));
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(err instanceof Error ? err.message : "Could not prepare the export.");
+    }
+  };
+
+  const renderExport = async (options: ExportOptions) => {
+    await preloadImages(imageCacheRef.current, imageSources(config));
+    await loadFonts(config);
+    return exportPoster(config, renderAssets(), options);
+  };
+
+  const downloadExport = (blob: Blob, options: ExportOptions) => {
+    downloadBlob(blob, `aaiena-poster-${Date.now()}.${EXPORT_FORMATS[options.format].extension}`);
+    setExportGamut(null);
+  };
+
+  const handleBatchImport = async (file: File) => {
+    setErrorMsg(null);
+    try {
+      const data = await readBatchFile(file);
+      setBatchData(data);
+      setBatchMapping(guessMapping(data.headers, BATCH_LABELS));
+      setBatchPreviews([]);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(err instanceof Error ? err.message : "Could not read that sheet.");
+    }
+  };
+
+  const batchFilenames = batchData
+    ? uniqueFilenames(batchData.rows.map((row, i) =>
+      formatBatchFilename(batchTemplate, row, batchMapping, applyBatchRow(config, row, batchMapping), i, batchData.rows.length)))
+    : [];
+
+  const handleApplyBatchRow = (index: number) => {
+    const row = batchData?.rows[index];
+    if (!row) return;
+    setConfig(prev => applyBatchRow(prev, row, batchMapping), { label: `Apply Row ${index + 1}` });
+  };
+
+  const handleBatchExport = async () => {
+    if (!batchData || batchProgress) return;
+    setErrorMsg(null);
+    setBatchProgress({ done: 0, total: batchData.rows.length });
+    try {
+      const generate = batchBackgrounds && !!batchMapping.theme;
+      const entries = await renderBatch({
+        config,
+        data: batchData,
+        mapping: batchMapping,
+        template: batchTemplate,
+        images: imageCacheRef.current,
+        background: async rowConfig => generate
+          ? loadImage(await imageProvider.generate(backgroundRequest(rowConfig, imageCacheRef.current)))
+          : bgImgRef.current,
+        onProgress: (done, total) => setBatchProgress({ done, total })
+      });
+      const slug = batchData.fileName.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'batch';
+      downloadBlob(createZip(entries), `${slug}-posters.zip`);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(err instanceof Error ? err.message : "Batch export failed.");
+    } finally {
+      setBatchProgress(null);
+    }
+  };
+
+  // Row thumbnails follow the design, mapping and background while the batch tab is open
+  useEffect(() => {
+    if (!batchData || sidebarTab !== 'batch') return;
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      const images = imageCacheRef.current;
+      const previews: (string | null)[] = [];
+      for (const row of batchData.rows) {
+        if (cancelled) return;
+        const rowConfig = applyBatchRow(config, row, batchMapping);
+        await preloadImages(images, imageSources(rowConfig));
+        await loadFonts(rowConfig);
+        previews.push(createThumbnail(renderPosterCanvas(rowConfig, renderAssets(), { width: THUMBNAIL_WIDTH })));
+      }
+      if (!cancelled) setBatchPreviews(previews);
+    }, PREVIEW_DELAY_MS);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [batchData, batchMapping, config, bgSrc, sidebarTab]);
+
+  // New custom layouts start from the shared one, fitted to the format's canvas
+  const handleCustomizeFormat = (ratio: AspectRatio) => {
+    setDesignConfig(prev => {
+      const view = resolveFormat(prev, ratio);
+      const surface = createSurface(view, imageCacheRef.current);
+      const fitted = fitLayersToCanvas(
+        view.layers,
+        { x: 0, y: 0, w: surface.width, h: surface.height },
+        layer => axisAlignedBounds(measureLayer(surface, layer))
+      );
+      return customizeFormat(prev, ratio, fitted);
+    }, { label: `Customize ${ratio} Layout` });
+  };
+
+  const handleResetFormat = (ratio: AspectRatio) => {
+    setDesignConfig(prev => resetFormat(prev, ratio), { label: `Share ${ratio} Layout` });
+  };
+
+  const handleExportPack = async () => {
+    if (packProgress) return;
+    const ratios = Object.values(AspectRatio);
+    setErrorMsg(null);
+    setPackProgress({ done: 0, total: ratios.length });
+    try {
+      const images = imageCacheRef.current;
+      const entries: ZipEntry[] = [];
+      for (const ratio of ratios) {
+        const formatConfig = resolveLanguage(resolveFormat(designConfig, ratio));
+        await preloadImages(images, imageSources(formatConfig));
+        await loadFonts(formatConfig);
+        // The current background was made for the current ratio; other formats regenerate or smart-crop it
+        const background = regenerateFormats && ratio !== designConfig.aspectRatio
+          ? await loadImage(await imageProvider.generate(backgroundRequest(formatConfig, images)))
+          : bgImgRef.current;
+        entries.push({ name: `${formatSlug(ratio)}.png`, data: await encodePng(renderPosterCanvas(formatConfig, { background, images })) });
+        setPackProgress({ done: entries.length, total: ratios.length });
+      }
+      const slug = designConfig.eventName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'poster';
+      downloadBlob(createZip(entries.map(entry => ({ ...entry, name: `${slug}-${entry.name}` }))), `${slug}-campaign-pack.zip`);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(err instanceof Error ? err.message : "Campaign pack export failed.");
+    } finally {
+      setPackProgress(null);
+    }
+  };
+
+  const handleSelectLanguage = (code: string | null) => {
+    setDesignConfig(prev => ({ ...prev, activeLanguage: code }), { label: code ? `Edit ${findLanguage(designConfig, code)?.name ?? code}` : 'Edit Source Copy' });
+  };
+
+  const handleAddLanguage = (code: string) => {
+    const variant = createLanguage(code);
+    setDesignConfig(prev => ({ ...prev, languages: [...prev.languages, variant], activeLanguage: code }), { label: `Add ${variant.name}` });
+  };
+
+  const handleRemoveLanguage = (code: string) => {
+    setDesignConfig(prev => removeLanguage(prev, code), { label: `Remove ${findLanguage(designConfig, code)?.name ?? code}` });
+  };
+
+  // Like a new format layout, a language layout starts from what is on screen, pulled back inside the canvas
+  const handleCustomizeLanguageLayout = () => {
+    const code = designConfig.activeLanguage;
+    if (!code) return;
+    setDesignConfig(prev => {
+      const view = resolveLanguage(resolveFormat(prev));
+      const surface = createSurface(view, imageCacheRef.current);
+      const fitted = fitLayersToCanvas(
+        view.layers,
+        { x: 0, y: 0, w: surface.width, h: surface.height },
+        layer => axisAlignedBounds(measureLayer(surface, layer))
+      );
+      return customizeLanguageLayout(prev, code, prev.aspectRatio, fitted);
+    }, { label: `Customize ${code.toUpperCase()} ${designConfig.aspectRatio} Layout` });
+  };
+
+  const handleResetLanguageLayout = () => {
+    const code = designConfig.activeLanguage;
+    if (!code) return;
+    setDesignConfig(prev => resetLanguageLayout(prev, code, prev.aspectRatio), { label: `Share ${code.toUpperCase()} Layout` });
+  };
+
+  // One PNG per language in the current format, all on the current background
+  const handleExportLanguages = async () => {
+    if (languageProgress) return;
+    const codes = [designConfig.sourceLanguage, ...designConfig.languages.map(l => l.code)];
+    setErrorMsg(null);
+    setLanguageProgress({ done: 0, total: codes.length });
+    try {
+      const images = imageCacheRef.current;
+      const entries: ZipEntry[] = [];
+      for (const code of codes) {
+        const languageConfig = resolveLanguage(resolveFormat(designConfig), code === designConfig.sourceLanguage ? null : code);
+        await preloadImages(images, imageSources(languageConfig));
+        await loadFonts(languageConfig);
+        entries.push({ name: `${code}-${formatSlug(designConfig.aspectRatio)}.png`, data: await encodePng(renderPosterCanvas(languageConfig, renderAssets())) });
+        setLanguageProgress({ done: entries.length, total: codes.length });
+      }
+      const slug = designConfig.eventName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'poster';
+      downloadBlob(createZip(entries.map(entry => ({ ...entry, name: `${slug}-${entry.name}` }))), `${slug}-languages.zip`);
+    } catch (err) {
+      console.error(err);
+      setErrorMsg(err instanceof Error ? err.message : "Language export failed.");
+    } finally {
+      setLanguageProgress(null);
+    }
+  };
+
+  // Side-by-side thumbnails of every format while the design tab is open
+  useEffect(() => {
+    if (sidebarTab !== 'design') return;
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      const images = imageCacheRef.current;
+      const previews: Partial<Record<AspectRatio, string | null>> = {};
+      for (const ratio of Object.values(AspectRatio)) {
+        const formatConfig = resolveLanguage(resolveFormat(designConfig, ratio));
+        await preloadImages(images, imageSources(formatConfig));
+        await loadFonts(formatConfig);
+        if (cancelled) return;
+        previews[ratio] = createThumbnail(renderPosterCanvas(formatConfig, renderAssets(), { width: FORMAT_PREVIEW_WIDTH }), FORMAT_PREVIEW_WIDTH);
+      }
+      if (!cancelled) setFormatPreviews(previews);
+    }, PREVIEW_DELAY_MS);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [designConfig, bgSrc, sidebarTab]);
+
   const handleShare = async () => {
-    drawCanvas(true);
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
     try {
-      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
-      if (blob && navigator.share) {
+      await preloadImages(imageCacheRef.current, imageSources(config));
+      await loadFonts(config);
+      const blob = await encodeCanvas(renderPosterCanvas(config, renderAssets()));
+      if (navigator.share) {
         const file = new File([blob], "poster.png", { type: 'image/png' });
         await navigator.share({
           files: [file],
@@ -399,10 +1477,70 @@ const App: React.FC = () => {
       console.error("Share failed:", err);
       handleExport();
     }
-    setTimeout(() => drawCanvas(false), 100);
   };
 
-  useEffect(() => { drawCanvas(false); }, [config, drawCanvas]);
+  useEffect(() => { drawPoster(); }, [drawPoster]);
+  useEffect(() => { drawOverlay(); }, [drawOverlay]);
+
+  const draggedLayer = findLayer(config, activeDrag?.layerId ?? pinch?.layerId ?? null);
+
+  useEffect(() => () => cancelLongPress(), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      const tag = target?.tagName;
+      // Text fields keep their native undo for typing
+      const isTyping = tag === 'TEXTAREA' || (tag === 'INPUT' && (target as HTMLInputElement).type === 'text');
+      const key = e.key.toLowerCase();
+
+      if (e.ctrlKey || e.metaKey) {
+        if (isTyping) return;
+        if (key === 'z' && !e.shiftKey) {
+          e.preventDefault();
+          undo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+          e.preventDefault();
+          redo();
+        } else if (key === 'a') {
+          e.preventDefault();
+          setSelectedIds(config.layers.filter(l => l.pos.visible).map(l => l.id));
+        } else if (key === 'g') {
+          e.preventDefault();
+          if (e.shiftKey) handleUngroup();
+          else handleGroup();
+        } else if (key === 'c' && e.altKey) {
+          e.preventDefault();
+          handleCopyStyle();
+        } else if (key === 'v' && e.altKey) {
+          e.preventDefault();
+          handlePasteStyle();
+        }
+        return;
+      }
+
+      // Sliders, selects and other controls keep their own arrow-key behaviour
+      if (tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT') return;
+      const step = e.shiftKey ? 5 : 1;
+      switch (e.key) {
+        case 'ArrowLeft': e.preventDefault(); handleNudge(-step, 0); break;
+        case 'ArrowRight': e.preventDefault(); handleNudge(step, 0); break;
+        case 'ArrowUp': e.preventDefault(); handleNudge(0, -step); break;
+        case 'ArrowDown': e.preventDefault(); handleNudge(0, step); break;
+        case 'Delete':
+        case 'Backspace':
+          if (selectedIds.length === 0) return;
+          e.preventDefault();
+          handleHideSelection();
+          break;
+        case 'Escape':
+          setSelectedIds([]);
+          break;
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, config, selectedIds, primaryLayer, styleClipboard]);
 
   return (
     <div className="h-screen bg-[#050505] text-slate-300 font-sans flex flex-col overflow-hidden">
@@ -419,15 +1557,28 @@ const App: React.FC = () => {
           {Object.values(AspectRatio).map(ratio => (
             <button 
               key={ratio} 
-              onClick={() => setConfig({...config, aspectRatio: ratio})}
+              onClick={() => selectFormat(ratio)}
               className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase transition-all ${config.aspectRatio === ratio ? 'bg-white text-black shadow-lg scale-105' : 'text-slate-500 hover:text-white'}`}
             >
-              {ratio}
+              {ratio}{isCustomFormat(designConfig, ratio) && <span className="ml-1 text-blue-500">•</span>}
             </button>
           ))}
         </div>
 
         <div className="flex items-center gap-3">
+          <button 
+            onClick={() => projectInputRef.current?.click()}
+            className="bg-white/5 text-slate-400 border border-white/10 px-4 py-2 rounded-xl text-[10px] font-black uppercase transition-all hover:bg-white/10 hover:text-white"
+          >
+            Open
+          </button>
+          <input ref={projectInputRef} type="file" className="hidden" accept=".json,application/json" onChange={handleOpenProject} />
+          <button 
+            onClick={handleSaveProject}
+            className="bg-white/5 text-slate-400 border border-white/10 px-4 py-2 rounded-xl text-[10px] font-black uppercase transition-all hover:bg-white/10 hover:text-white"
+          >
+            Save
+          </button>
           <button 
             onClick={() => setShowDeployModal(true)}
             className="flex items-center gap-2 bg-white/5 text-slate-400 border border-white/10 px-4 py-2 rounded-xl text-[10px] font-black uppercase transition-all hover:bg-white/10 hover:text-white"
@@ -448,18 +1599,40 @@ const App: React.FC = () => {
           <div className="absolute inset-0 opacity-10 pointer-events-none" style={{ backgroundImage: 'radial-gradient(circle at 2px 2px, #475569 1px, transparent 0)', backgroundSize: '32px 32px' }}></div>
           <div className="relative w-full h-full flex items-center justify-center">
             <div className="relative bg-black p-1 rounded-[2.5rem] shadow-[0_0_100px_rgba(0,0,0,0.6)] border border-white/10 group">
-              <canvas
-                ref={canvasRef}
-                onMouseDown={handleMouseDown}
-                onMouseMove={handleMouseMove}
-                onMouseUp={() => setActiveDrag(null)}
-                onMouseLeave={() => setActiveDrag(null)}
-                className="max-w-[calc(100vw-480px)] max-h-[calc(100vh-160px)] rounded-[2.2rem] cursor-grab active:cursor-grabbing touch-none shadow-2xl transition-all"
-                style={{ width: 'auto', height: 'auto' }}
-              />
-              {activeDrag && (
+              <div className="relative">
+                <canvas
+                  ref={canvasRef}
+                  className="block max-w-[calc(100vw-480px)] max-h-[calc(100vh-160px)] rounded-[2.2rem] shadow-2xl transition-all"
+                  style={{ width: 'auto', height: 'auto' }}
+                />
+                <canvas
+                  ref={overlayRef}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  className={`absolute inset-0 w-full h-full rounded-[2.2rem] touch-none ${brushing ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`}
+                />
+              </div>
+              {draggedLayer && (
                 <div className="absolute -top-10 left-1/2 -translate-x-1/2 bg-blue-600 text-white px-4 py-1.5 rounded-full text-[9px] font-black uppercase shadow-2xl animate-pulse">
-                  Snapping to {(config[activeDrag.key] as ElementPos).x}%, {(config[activeDrag.key] as ElementPos).y}%
+                  {activeDrag?.mode === 'resize' && <>Scale {draggedLayer.pos.scale.toFixed(2)}x</>}
+                  {activeDrag?.mode === 'rotate' && <>Rotate {draggedLayer.pos.rotation ?? 0}°</>}
+                  {activeDrag?.mode === 'move' && <>Snapping to {draggedLayer.pos.x}%, {draggedLayer.pos.y}%</>}
+                  {pinch && <>{draggedLayer.pos.scale.toFixed(2)}x · {draggedLayer.pos.rotation ?? 0}°</>}
+                </div>
+              )}
+              {layoutIssues.length > 0 && !draggedLayer && (
+                <div className="absolute top-full mt-3 left-1/2 -translate-x-1/2 flex flex-wrap justify-center gap-2 w-max max-w-full">
+                  {layoutIssues.map(w => (
+                    <button
+                      key={`${w.layerId}-${w.issue}`}
+                      onClick={() => selectLayers([w.layerId])}
+                      className="bg-amber-500/15 border border-amber-400/30 text-amber-300 px-3 py-1 rounded-full text-[8px] font-black uppercase hover:bg-amber-500/25"
+                    >
+                      ⚠️ {w.layer}: {LAYOUT_ISSUE_LABELS[w.issue]}
+                    </button>
+                  ))}
                 </div>
               )}
               {isGenerating && (
@@ -468,12 +1641,82 @@ const App: React.FC = () => {
                   <p className="text-white font-black uppercase tracking-[0.4em] text-[10px]">Processing AI Vision</p>
                 </div>
               )}
+              {errorMsg && (
+                <div onClick={() => setErrorMsg(null)} className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-red-600/90 text-white px-6 py-3 rounded-2xl text-[10px] font-black uppercase shadow-2xl z-[60] cursor-pointer">⚠️ {errorMsg}</div>
+              )}
             </div>
           </div>
         </section>
 
         <aside className="w-[420px] bg-[#0d0d0d] border-l border-white/5 flex flex-col overflow-hidden shadow-2xl">
-          <div className="flex-1 overflow-y-auto scrollbar-hide p-6 space-y-8">
+          <div className="flex gap-2 p-4 border-b border-white/5">
+            {(['design', 'brand', 'batch', 'library', 'history'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => { setSidebarTab(tab); if (tab === 'library') refreshLibrary(); }}
+                className={`flex-1 py-2 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${sidebarTab === tab ? 'bg-white text-black' : 'bg-white/5 text-slate-500 hover:text-white'}`}
+              >
+                {tab === 'design' ? 'Design' : tab === 'brand' ? 'Brand' : tab === 'batch' ? 'Batch' : tab === 'library' ? `Library (${designs.length})` : 'History'}
+              </button>
+            ))}
+          </div>
+          <div className={`flex-1 overflow-y-auto scrollbar-hide p-6 ${sidebarTab === 'brand' ? '' : 'hidden'}`}>
+            <BrandKitPanel
+              kits={brandKits}
+              activeKitId={activeKit?.id ?? null}
+              offBrand={offBrand}
+              onSelect={handleSelectBrand}
+              onCreate={handleCreateBrand}
+              onSave={handleSaveBrand}
+              onDelete={handleDeleteBrand}
+              onApplyDefaults={handleApplyBrandDefaults}
+              onCaptureDefaults={handleCaptureBrandDefaults}
+              onSnapColors={handleSnapBrandColors}
+              onAddLogo={handleAddBrandLogo}
+            />
+          </div>
+          <div className={`flex-1 overflow-y-auto scrollbar-hide p-6 ${sidebarTab === 'batch' ? '' : 'hidden'}`}>
+            <BatchPanel
+              data={batchData}
+              mapping={batchMapping}
+              template={batchTemplate}
+              filenames={batchFilenames}
+              previews={batchPreviews}
+              fieldLabels={BATCH_LABELS}
+              perRowBackgrounds={batchBackgrounds}
+              progress={batchProgress}
+              onImport={handleBatchImport}
+              onClear={() => { setBatchData(null); setBatchPreviews([]); }}
+              onMappingChange={(target, header) => setBatchMapping(prev => ({ ...prev, [target]: header }))}
+              onTemplateChange={setBatchTemplate}
+              onPerRowBackgroundsChange={setBatchBackgrounds}
+              onApplyRow={handleApplyBatchRow}
+              onExport={handleBatchExport}
+            />
+          </div>
+          <div className={`flex-1 overflow-y-auto scrollbar-hide p-6 ${sidebarTab === 'library' ? '' : 'hidden'}`}>
+            <LibraryPanel
+              designs={designs}
+              currentId={designId}
+              onOpen={handleOpenDesign}
+              onNew={handleNewDesign}
+              onRename={handleRenameDesign}
+              onDuplicate={handleDuplicateDesign}
+              onDelete={handleDeleteDesign}
+            />
+          </div>
+          <div className={`flex-1 overflow-y-auto scrollbar-hide p-6 ${sidebarTab === 'history' ? '' : 'hidden'}`}>
+            <HistoryPanel
+              entries={historyEntries}
+              index={historyIndex}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              onJump={jumpTo}
+            />
+          </div>
+          <div className={`flex-1 overflow-y-auto scrollbar-hide p-6 space-y-8 ${sidebarTab === 'design' ? '' : 'hidden'}`}>
             <section className="space-y-4">
               <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
                 <span className="w-1 h-1 bg-blue-500 rounded-full"></span>
@@ -483,173 +1726,228 @@ const App: React.FC = () => {
                 <textarea 
                   className="w-full bg-black/40 border border-white/5 rounded-xl p-3 text-xs text-slate-300 min-h-[70px] focus:border-blue-500/50 outline-none transition-all resize-none" 
                   value={config.theme} 
-                  onChange={e => setConfig({...config, theme: e.target.value})}
+                  onChange={e => updateField('theme', e.target.value)}
                   placeholder="Describe your background..."
                 />
+                <PromptStylePanel
+                  request={generationRequest}
+                  style={config.promptStyle}
+                  brandPresets={activeKit?.stylePresets ?? []}
+                  builtInPresets={STYLE_PRESETS}
+                  brandName={activeKit?.name ?? null}
+                  onChange={(promptStyle, label) => setConfig(prev => ({ ...prev, promptStyle }), { label, coalesce: `prompt:${label}` })}
+                  onSaveToBrand={handleSavePromptStyle}
+                  onDeleteBrandPreset={handleDeletePromptStyle}
+                />
+                <div className="flex items-center gap-2">
+                  <span className="text-[8px] font-bold text-slate-600 uppercase ml-1 mr-auto">Candidates</span>
+                  {Array.from({ length: MAX_CANDIDATES }, (_, i) => i + 1).map(n => (
+                    <button
+                      key={n}
+                      onClick={() => setCandidateCount(n)}
+                      className={`w-7 py-1 rounded-lg text-[9px] font-black border ${candidateCount === n ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white'}`}
+                    >
+                      {n}
+                    </button>
+                  ))}
+                </div>
                 <button
                   onClick={handleGenerate}
                   disabled={isGenerating}
                   className="w-full py-3 bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50 rounded-xl font-black text-[10px] uppercase tracking-widest transition-all active:scale-95 shadow-lg shadow-blue-500/10"
                 >
-                  {isGenerating ? "Synthesizing..." : "Regenerate Background"}
+                  {isGenerating ? "Synthesizing..." : candidateCount > 1 ? `Generate ${candidateCount} Backgrounds` : "Regenerate Background"}
                 </button>
+                {bgSrc && (
+                  <BackgroundEditPanel
+                    busy={isGenerating}
+                    brushActive={brush.active}
+                    brushSize={brush.size}
+                    strokeCount={brushStrokes.length}
+                    variationCount={candidateCount}
+                    extendTo={bgSize && !matchesAspect(bgSize.width, bgSize.height, config.aspectRatio) ? config.aspectRatio : null}
+                    autoExtend={autoExtend}
+                    onBrushChange={(active, size) => setBrush({ active, size })}
+                    onClearStrokes={() => setBrushStrokes([])}
+                    onEdit={handleEditBackground}
+                    onInpaint={handleInpaintBackground}
+                    onVary={handleVaryBackground}
+                    onExtend={() => extendBackground(config.aspectRatio)}
+                    onAutoExtendChange={setAutoExtend}
+                    onUpscale={handleUpscaleBackground}
+                  />
+                )}
+                <BackgroundGallery
+                  history={backgroundHistory}
+                  current={bgSrc}
+                  onSelect={handleSelectBackground}
+                  onUsePrompt={entry => updateField('theme', entry.prompt)}
+                  onTogglePin={id => setBackgroundHistory(prev => togglePinned(prev, id))}
+                  onRemove={id => setBackgroundHistory(prev => removeBackground(prev, id))}
+                  onClearUnpinned={() => setBackgroundHistory(prev => clearUnpinned(prev))}
+                />
+                <ImageProviderPanel settings={providerSettings} onChange={handleProviderChange} />
               </div>
             </section>
 
+            <LanguagePanel
+              sourceLanguage={designConfig.sourceLanguage}
+              languages={designConfig.languages}
+              active={designConfig.activeLanguage}
+              progress={Object.fromEntries(designConfig.languages.map(l => [l.code, translationProgress(designConfig, l)]))}
+              ratio={designConfig.aspectRatio}
+              customLayout={!!designConfig.activeLanguage && isCustomLanguageLayout(designConfig, designConfig.activeLanguage, designConfig.aspectRatio)}
+              exportProgress={languageProgress}
+              onSelect={handleSelectLanguage}
+              onAdd={handleAddLanguage}
+              onRemove={handleRemoveLanguage}
+              onSourceChange={code => setDesignConfig(prev => ({ ...prev, sourceLanguage: code }), { label: 'Source Language' })}
+              onCustomizeLayout={handleCustomizeLanguageLayout}
+              onResetLayout={handleResetLanguageLayout}
+              onExportAll={handleExportLanguages}
+            />
+
             <section className="space-y-4">
               <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest px-1">Campaign Variables</h3>
               <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-3">
                   <div className="space-y-1">
                     <label className="text-[8px] font-bold text-slate-600 uppercase ml-1">Brand Name</label>
-                    <input type="text" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20" value={config.brandName} onChange={e => setConfig({...config, brandName: e.target.value})} />
+                    <input type="text" dir="auto" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20" value={config.brandName} onChange={e => updateField('brandName', e.target.value)} />
                   </div>
                   <div className="space-y-1">
                     <label className="text-[8px] font-bold text-slate-600 uppercase ml-1">Event Name</label>
-                    <input type="text" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20" value={config.eventName} onChange={e => setConfig({...config, eventName: e.target.value})} />
+                    <input type="text" dir="auto" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20" value={config.eventName} onChange={e => updateField('eventName', e.target.value)} />
                   </div>
                 </div>
                 <div className="grid grid-cols-2 gap-3">
                   <div className="space-y-1">
                     <label className="text-[8px] font-bold text-slate-600 uppercase ml-1">Badge 1</label>
-                    <input type="text" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20" value={config.duration} onChange={e => setConfig({...config, duration: e.target.value})} />
+                    <input type="text" dir="auto" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20" value={config.duration} onChange={e => updateField('duration', e.target.value)} />
                   </div>
                   <div className="space-y-1">
                     <label className="text-[8px] font-bold text-slate-600 uppercase ml-1">Badge 2</label>
-                    <input type="text" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20" value={config.price} onChange={e => setConfig({...config, price: e.target.value})} />
+                    <input type="text" dir="auto" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20" value={config.price} onChange={e => updateField('price', e.target.value)} />
                   </div>
                 </div>
                 <div className="space-y-1">
                   <label className="text-[8px] font-bold text-slate-600 uppercase ml-1">Headline</label>
-                  <input type="text" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs font-black text-white outline-none focus:border-white/20" value={config.headline} onChange={e => setConfig({...config, headline: e.target.value})} />
+                  <textarea rows={2} dir="auto" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs font-black text-white outline-none focus:border-white/20 resize-none" value={config.headline} onChange={e => updateField('headline', e.target.value)} />
                 </div>
                 <div className="space-y-1">
                   <label className="text-[8px] font-bold text-slate-600 uppercase ml-1">Description</label>
-                  <textarea className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs min-h-[60px] text-slate-400 outline-none focus:border-white/20 resize-none" value={config.subHeadline} onChange={e => setConfig({...config, subHeadline: e.target.value})} />
+                  <textarea dir="auto" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs min-h-[60px] text-slate-400 outline-none focus:border-white/20 resize-none" value={config.subHeadline} onChange={e => updateField('subHeadline', e.target.value)} />
                 </div>
                 <div className="space-y-1">
                   <label className="text-[8px] font-bold text-slate-600 uppercase ml-1">CTA Label</label>
-                  <input type="text" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20" value={config.ctaText} onChange={e => setConfig({...config, ctaText: e.target.value})} />
+                  <input type="text" dir="auto" className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20" value={config.ctaText} onChange={e => updateField('ctaText', e.target.value)} />
                 </div>
               </div>
             </section>
 
             <section className="space-y-4">
               <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Brand Assets</h3>
+              {activeKit && activeKit.logos.length > 0 && (
+                <div className="grid grid-cols-3 gap-2">
+                  {activeKit.logos.map(logo => (
+                    <button
+                      key={logo.id}
+                      title={logo.name}
+                      onClick={() => setConfig(prev => ({ ...prev, logoUrl: logo.src }), { label: `Use ${logo.name}` })}
+                      className={`p-2 rounded-xl border bg-black/40 transition-all ${config.logoUrl === logo.src ? 'border-blue-500/70' : 'border-white/5 hover:border-white/20'}`}
+                    >
+                      <img src={logo.src} alt={logo.name} className="w-full h-10 object-contain" />
+                    </button>
+                  ))}
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-3">
-                <label className="flex flex-col items-center justify-center p-4 border-2 border-dashed border-white/5 bg-white/[0.02] rounded-2xl cursor-pointer hover:bg-white/10 hover:border-white/20 transition-all group text-center">
-                   <div className="text-[18px] mb-1 opacity-40 group-hover:opacity-100">🛡️</div>
-                   <span className="text-[8px] font-black uppercase text-slate-500 group-hover:text-white">Replace Logo</span>
-                   <input type="file" className="hidden" accept="image/*" onChange={(e) => handleFileUpload(e, 'logo')} />
-                </label>
+                {!(activeKit?.locked && activeKit.logos.length > 0) && (
+                  <label className="flex flex-col items-center justify-center p-4 border-2 border-dashed border-white/5 bg-white/[0.02] rounded-2xl cursor-pointer hover:bg-white/10 hover:border-white/20 transition-all group text-center">
+                     <div className="text-[18px] mb-1 opacity-40 group-hover:opacity-100">🛡️</div>
+                     <span className="text-[8px] font-black uppercase text-slate-500 group-hover:text-white">Replace Logo</span>
+                     <input type="file" className="hidden" accept="image/*" onChange={(e) => handleFileUpload(e, 'logo')} />
+                  </label>
+                )}
                 <label className="flex flex-col items-center justify-center p-4 border-2 border-dashed border-white/5 bg-white/[0.02] rounded-2xl cursor-pointer hover:bg-white/10 hover:border-white/20 transition-all group text-center">
                    <div className="text-[18px] mb-1 opacity-40 group-hover:opacity-100">🧬</div>
                    <span className="text-[8px] font-black uppercase text-slate-500 group-hover:text-white">Embed QR</span>
                    <input type="file" className="hidden" accept="image/*" onChange={(e) => handleFileUpload(e, 'qr')} />
                 </label>
               </div>
+              <QrPanel
+                settings={config.qrCode}
+                check={qrCheck}
+                swatches={brandSwatches}
+                lockColors={!!activeKit?.locked}
+                onChange={handleQrChange}
+              />
             </section>
 
-            <section className="space-y-4 pb-12">
-              <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Studio Layer Mastery</h3>
-              <div className="space-y-3">
-                {[
-                  { key: 'posLogo', label: 'Primary Logo', color: null },
-                  { key: 'posBrand', label: 'Brand Name', color: 'colorBrand' },
-                  { key: 'posEventName', label: 'Event Identifier', color: 'colorEvent' },
-                  { key: 'posHeadline', label: 'Headline Layer', color: 'colorHeadline' },
-                  { 
-                    key: 'posBadges', 
-                    label: 'Dynamic Info Badges', 
-                    color: 'colorBadges',
-                    extraColors: [
-                      { key: 'bgColorBadge1', label: 'Badge 1 Fill' },
-                      { key: 'bgColorBadge2', label: 'Badge 2 Fill' }
-                    ]
-                  },
-                  { key: 'posSubHeadline', label: 'Sub Headline', color: 'colorSubHeadline' },
-                  { key: 'posCTA', label: 'Conversion Button', color: 'colorCTA', bg: 'bgColorCTA' },
-                  { key: 'posQR', label: 'QR Destination', color: null }
-                ].map(({key, label, color, bg, extraColors}) => (
-                  <div 
-                    key={key} 
-                    onClick={() => setSelectedElement(key as keyof PosterConfig)}
-                    className={`p-5 rounded-2xl border transition-all cursor-pointer ${selectedElement === key ? 'bg-blue-600/10 border-blue-500/50 scale-[1.02]' : 'bg-white/[0.02] border-white/5 hover:border-white/20'}`}
-                  >
-                    <div className="flex items-center justify-between mb-4">
-                      <div className="flex items-center gap-2">
-                         <div className={`w-1.5 h-1.5 rounded-full ${selectedElement === key ? 'bg-blue-500 animate-pulse' : 'bg-slate-700'}`}></div>
-                         <span className="text-[10px] font-black uppercase text-slate-300 tracking-tight">{label}</span>
-                      </div>
-                      <div className="flex gap-2">
-                        {key !== 'posLogo' && key !== 'posQR' && (
-                          <>
-                            <button 
-                              onClick={(e) => { e.stopPropagation(); toggleStyle(key as keyof PosterConfig, 'bold'); }}
-                              className={`w-6 h-6 flex items-center justify-center rounded-md text-[10px] font-bold border ${ (config[key as keyof PosterConfig] as ElementPos)?.bold ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white' }`}
-                            >
-                              B
-                            </button>
-                            <button 
-                              onClick={(e) => { e.stopPropagation(); toggleStyle(key as keyof PosterConfig, 'italic'); }}
-                              className={`w-6 h-6 flex items-center justify-center rounded-md text-[10px] italic font-serif border ${ (config[key as keyof PosterConfig] as ElementPos)?.italic ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white' }`}
-                            >
-                              I
-                            </button>
-                          </>
-                        )}
-                        <button 
-                          onClick={(e) => { e.stopPropagation(); setConfig(prev => ({ ...prev, [key]: { ...(prev[key] as ElementPos), visible: !(prev[key] as ElementPos).visible } })); }}
-                          className={`text-[8px] px-3 py-1 rounded-full font-black transition-all ${ (config[key as keyof PosterConfig] as ElementPos)?.visible ? 'bg-white text-black' : 'bg-white/5 text-slate-600' }`}
-                        >
-                          { (config[key as keyof PosterConfig] as ElementPos)?.visible ? 'ACTIVE' : 'MUTED' }
-                        </button>
-                      </div>
-                    </div>
-                    { (config[key as keyof PosterConfig] as ElementPos)?.visible && (
-                      <div className="space-y-5">
-                        <div className="space-y-1.5">
-                          <div className="flex justify-between text-[8px] font-bold text-slate-600 uppercase px-1">
-                             <span>Scale Modifier</span>
-                             <span className="text-slate-400">{(config[key as keyof PosterConfig] as ElementPos).scale.toFixed(1)}x</span>
-                          </div>
-                          <input 
-                            type="range" min="0.2" max="2.5" step="0.1" 
-                            value={(config[key as keyof PosterConfig] as ElementPos).scale}
-                            onChange={(e) => updateScale(key as keyof PosterConfig, e.target.value)}
-                            className="w-full accent-white h-1.5 bg-white/5 rounded-full appearance-none cursor-pointer"
-                          />
-                        </div>
-                        <div className="grid grid-cols-2 gap-3">
-                          {color && (
-                            <div className="flex flex-col gap-1.5">
-                              <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Tint</span>
-                              <input type="color" value={config[color as keyof PosterConfig] as string} onChange={(e) => setConfig({...config, [color]: e.target.value})} className="w-full h-8 bg-black border border-white/10 rounded-lg cursor-pointer opacity-80 hover:opacity-100 transition-all" />
-                            </div>
-                          )}
-                          {bg && (
-                            <div className="flex flex-col gap-1.5">
-                              <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Fill</span>
-                              <input type="color" value={config[bg as keyof PosterConfig] as string} onChange={(e) => setConfig({...config, [bg]: e.target.value})} className="w-full h-8 bg-black border border-white/10 rounded-lg cursor-pointer opacity-80 hover:opacity-100 transition-all" />
-                            </div>
-                          )}
-                          {extraColors && extraColors.map(ec => (
-                            <div key={ec.key} className="flex flex-col gap-1.5">
-                              <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">{ec.label}</span>
-                              <input type="color" value={config[ec.key as keyof PosterConfig] as string} onChange={(e) => setConfig({...config, [ec.key]: e.target.value})} className="w-full h-8 bg-black border border-white/10 rounded-lg cursor-pointer opacity-80 hover:opacity-100 transition-all" />
-                            </div>
-                          ))}
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                ))}
-              </div>
-            </section>
+            <FormatPanel
+              current={config.aspectRatio}
+              previews={formatPreviews}
+              customFormats={Object.values(AspectRatio).filter(ratio => isCustomFormat(designConfig, ratio))}
+              regenerateBackgrounds={regenerateFormats}
+              progress={packProgress}
+              onSelect={selectFormat}
+              onCustomize={handleCustomizeFormat}
+              onReset={handleResetFormat}
+              onRegenerateChange={setRegenerateFormats}
+              onExportPack={handleExportPack}
+            />
+
+            <ArrangePanel
+              selectionCount={selectedIds.length}
+              gridSize={gridSize}
+              smartGuides={smartGuides}
+              canGroup={selectedIds.length > 1}
+              canUngroup={config.layers.some(l => selectedIds.includes(l.id) && l.groupId)}
+              canCopyStyle={!!primaryLayer}
+              canPasteStyle={!!styleClipboard && selectedIds.length > 0}
+              onAlign={handleAlign}
+              onDistribute={handleDistribute}
+              onGroup={handleGroup}
+              onUngroup={handleUngroup}
+              onCopyStyle={handleCopyStyle}
+              onPasteStyle={handlePasteStyle}
+              onGridSizeChange={setGridSize}
+              onSmartGuidesChange={setSmartGuides}
+            />
+
+            <LayerPanel
+              layers={config.layers}
+              selectedIds={selectedIds}
+              fieldLabels={FIELD_LABELS}
+              swatches={brandSwatches}
+              lockColors={!!activeKit?.locked}
+              onSelect={(id, additive) => selectLayers([id], additive)}
+              onAdd={handleAddLayer}
+              onDelete={handleDeleteLayer}
+              onMove={handleMoveLayer}
+              onToggleVisibility={toggleVisibility}
+              onToggleStyle={toggleStyle}
+              onScale={updateScale}
+              onRotate={updateRotation}
+              onPatch={patchLayer}
+              onImageUpload={handleLayerImageUpload}
+              fonts={fontOptions(config, activeKit)}
+              onFontUpload={handleFontUpload}
+            />
           </div>
         </aside>
       </main>
 
+      {exportGamut !== null && (
+        <ExportDialog
+          config={config}
+          gamutShare={exportGamut}
+          onRender={renderExport}
+          onDownload={downloadExport}
+          onClose={() => setExportGamut(null)}
+        />
+      )}
+
       {showDeployModal && (
         <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-6">
           <div className="bg-[#121212] border border-white/10 max-w-2xl w-full rounded-[2.5rem] p-8 space-y-8 shadow-[0_0_100px_rgba(0,0,0,0.8)] max-h-[90vh] overflow-y-auto">
@@ -665,15 +1963,29 @@ const App: React.FC = () => {
               <div className="bg-blue-600/10 border border-blue-500/20 p-6 rounded-3xl space-y-4">
                 <div className="flex items-center gap-3">
                   <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center text-white font-bold">1</div>
-                  <h3 className="text-sm font-black text-white uppercase">Critical Step (From your screenshot)</h3>
+                  <h3 className="text-sm font-black text-white uppercase">Build the Site</h3>
+                </div>
+                <div className="text-xs text-slate-400 space-y-3 leading-relaxed">
+                  <p>GitHub Pages serves the built app, not the source files. Build it on your computer first.</p>
+                  <ol className="list-decimal ml-5 space-y-2">
+                    <li>Put your key in <strong>.env.local</strong> as <strong>GEMINI_API_KEY=...</strong>. It is baked into the build, so without it the site uses the offline mock engine.</li>
+                    <li>Run <strong>npm install</strong> and then <strong>npm run build</strong>.</li>
+                    <li>On your repository page, click <strong>"uploading an existing file"</strong> and drop in the <strong>contents</strong> of the <strong>dist/</strong> folder (not the folder itself).</li>
+                    <li>Click <strong>Commit changes</strong>.</li>
+                  </ol>
+                </div>
+              </div>
+              <div className="bg-blue-600/10 border border-blue-500/20 p-6 rounded-3xl space-y-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center text-white font-bold">2</div>
+                  <h3 className="text-sm font-black text-white uppercase">Enable Pages</h3>
                 </div>
                 <div className="text-xs text-slate-400 space-y-3 leading-relaxed">
-                  <p>In your GitHub repository settings, you are currently on the <strong>"Runners"</strong> tab. You need to switch to the <strong>"Pages"</strong> tab.</p>
                   <ol className="list-decimal ml-5 space-y-2">
-                    <li>Look at the sidebar on the left side of your GitHub screen.</li>
-                    <li>Scroll down and click on <strong>"Pages"</strong> (located under the 'Code and automation' section).</li>
+                    <li>Open the <strong>Settings</strong> tab of your repository.</li>
+                    <li>Scroll down the left sidebar and click <strong>"Pages"</strong> (under 'Code and automation').</li>
                     <li>Ensure <strong>"Deploy from a branch"</strong> is selected.</li>
-                    <li>Select <strong>Branch: main</strong> and folder <strong>/(root)</strong>.</li>
+                    <li>Select <strong>Branch: main</strong> and folder <strong>/(root)</strong>, which now holds the built files.</li>
                     <li>Click <strong>Save</strong>.</li>
                   </ol>
                 </div>
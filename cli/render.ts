@@ -0,0 +1,169 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createCanvas, GlobalFonts, loadImage } from '@napi-rs/canvas';
+import { AspectRatio, CampaignField, PosterConfig } from '../types';
+import { fontFamilies } from '../services/fonts';
+import { resolveFormat } from '../services/formats';
+import { resolveLanguage } from '../services/languages';
+import { revealAssetLayers } from '../services/layers';
+import { resolveProjectAsset, upgradeProject } from '../services/project';
+import { DEFAULT_QR_CODE } from '../services/qr';
+import {
+  CanvasFactory, ImageCache, imageSources, POSTER_WIDTH, posterHeight, renderPoster, setCanvasFactory
+} from '../services/renderer';
+
+// Command-line flag for each campaign field, e.g. --sub-headline
+const FIELD_FLAGS: Record<string, CampaignField> = {
+  'brand-name': 'brandName',
+  'event-name': 'eventName',
+  'duration': 'duration',
+  'price': 'price',
+  'headline': 'headline',
+  'sub-headline': 'subHeadline',
+  'cta-text': 'ctaText'
+};
+
+const OUTPUT_FORMATS: Record<string, 'png' | 'jpeg' | 'webp'> = { '.png': 'png', '.jpg': 'jpeg', '.jpeg': 'jpeg', '.webp': 'webp' };
+
+const USAGE = `Usage: npm run render -- <design.json> [options]
+
+Renders a saved project (or a bare PosterConfig JSON) exactly as the studio exports it.
+
+Options:
+  --out <file>          Output file; .png, .jpg or .webp (default: poster.png)
+  --aspect <ratio>      ${Object.values(AspectRatio).join(', ')}
+  --lang <code>         Render one of the design's translations, e.g. ar (default: the language it was saved in)
+  --scale <n>           Output pixels per poster pixel, e.g. 2 for ${POSTER_WIDTH * 2}px wide (default: 1)
+  --quality <0-1>       JPEG/WebP quality (default: 0.92)
+  --background <src>    Background image path or URL, replacing the saved one
+  --logo <src>          Logo image path or URL
+  --qr <src>            QR image path or URL
+  --qr-link <url>       Generate the QR code from a link, keeping the design's QR styling and UTM parameters
+  --font <file>         Register a TTF/OTF font; repeatable. Install the design's library fonts to match the browser
+${Object.keys(FIELD_FLAGS).map(flag => `  --${flag} <text>`).join('\n')}
+  -h, --help            Show this help`;
+
+const parseCommandLine = () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'poster.png' },
+      aspect: { type: 'string' },
+      lang: { type: 'string' },
+      scale: { type: 'string', default: '1' },
+      quality: { type: 'string', default: '0.92' },
+      background: { type: 'string' },
+      logo: { type: 'string' },
+      qr: { type: 'string' },
+      'qr-link': { type: 'string' },
+      font: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+      ...Object.fromEntries(Object.keys(FIELD_FLAGS).map(flag => [flag, { type: 'string' as const }]))
+    }
+  });
+  return { values: values as Record<string, string | string[] | boolean | undefined>, positionals };
+};
+
+// Field flags apply last, so they replace the chosen translation's copy too
+const applyOverrides = (config: PosterConfig, values: Record<string, unknown>): PosterConfig => {
+  let next = { ...config };
+  if (typeof values.logo === 'string') next.logoUrl = values.logo;
+  if (typeof values.qr === 'string') next = { ...next, qrUrl: values.qr, qrCode: null };
+  if (typeof values['qr-link'] === 'string') next.qrCode = { ...(next.qrCode ?? DEFAULT_QR_CODE), url: values['qr-link'] };
+  if (typeof values.aspect === 'string') {
+    const ratio = Object.values(AspectRatio).find(r => r === values.aspect);
+    if (!ratio) throw new Error(`Unknown aspect ratio "${values.aspect}". Use one of ${Object.values(AspectRatio).join(', ')}.`);
+    next = resolveFormat(next, ratio);
+  } else {
+    next = resolveFormat(next);
+  }
+  if (typeof values.lang === 'string') {
+    const codes = [next.sourceLanguage, ...next.languages.map(l => l.code)];
+    if (!codes.includes(values.lang)) throw new Error(`The design has no "${values.lang}" copy. Use one of ${codes.join(', ')}.`);
+    next = resolveLanguage(next, values.lang === next.sourceLanguage ? null : values.lang);
+  } else {
+    next = resolveLanguage(next);
+  }
+  Object.entries(FIELD_FLAGS).forEach(([flag, field]) => {
+    if (typeof values[flag] === 'string') next[field] = values[flag] as string;
+  });
+  // The QR layer starts hidden; supplying a code should show it, as the editor does. This runs after the
+  // format and language are resolved so their own layouts cannot hide it again
+  if (typeof values.qr === 'string' || typeof values['qr-link'] === 'string') {
+    next = revealAssetLayers(next, 'qrUrl');
+    if (!next.layers.some(l => l.type === 'image' && l.assetField === 'qrUrl')) {
+      throw new Error("The design has no QR layer to show the code in. Add one in the editor first.");
+    }
+  }
+  return next;
+};
+
+// Broken images are left out of the cache, so they render as empty like they do in the browser
+const loadImages = async (sources: string[]): Promise<ImageCache> => {
+  const cache = new Map() as ImageCache;
+  await Promise.all(sources.map(async src => {
+    try {
+      cache.set(src, await loadImage(src) as unknown as HTMLImageElement);
+    } catch (err) {
+      console.warn(`Warning: could not load image ${src.slice(0, 80)} (${err instanceof Error ? err.message : err})`);
+    }
+  }));
+  return cache;
+};
+
+const main = async () => {
+  const { values, positionals } = parseCommandLine();
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const out = values.out as string;
+  const format = OUTPUT_FORMATS[extname(out).toLowerCase()];
+  if (!format) throw new Error(`Cannot write "${out}". Use a .png, .jpg or .webp file name.`);
+  const scale = Number(values.scale);
+  if (!(scale > 0)) throw new Error(`Invalid --scale "${values.scale}".`);
+  const quality = Number(values.quality);
+  if (!(quality > 0 && quality <= 1)) throw new Error(`Invalid --quality "${values.quality}"; use a number between 0 and 1.`);
+
+  ((values.font as string[] | undefined) ?? []).forEach(file => {
+    if (!GlobalFonts.registerFromPath(file)) throw new Error(`Could not load font ${file}.`);
+  });
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(positionals[0], 'utf8'));
+  } catch (err) {
+    throw new Error(`Could not read ${positionals[0]}: ${err instanceof Error ? err.message : err}`);
+  }
+  const project = upgradeProject(raw);
+  const config = applyOverrides(project.config, values);
+  // Uploaded fonts are embedded in the design; library fonts have to be installed or passed with --font
+  config.customFonts.forEach(font => {
+    const data = Buffer.from(font.src.slice(font.src.indexOf(',') + 1), 'base64');
+    if (!GlobalFonts.register(data, font.family)) console.warn(`Warning: could not load the embedded font ${font.fileName}.`);
+  });
+  fontFamilies(config).filter(family => !GlobalFonts.has(family)).forEach(family => {
+    console.warn(`Warning: the ${family} font is not installed; text will use a fallback font. Pass --font path/to/${family.replace(/ /g, '')}.ttf to match the browser.`);
+  });
+  const backgroundSrc = typeof values.background === 'string' ? values.background : resolveProjectAsset(project.assets.background);
+
+  setCanvasFactory(((width, height) => createCanvas(width, height)) as unknown as CanvasFactory);
+  const images = await loadImages(imageSources(config));
+  const [background] = backgroundSrc ? [...(await loadImages([backgroundSrc])).values()] : [];
+
+  const width = Math.round(POSTER_WIDTH * scale);
+  const canvas = createCanvas(width, Math.round(posterHeight(config.aspectRatio, width)));
+  const ctx = canvas.getContext('2d') as unknown as CanvasRenderingContext2D;
+  renderPoster(ctx, config, { background: background ?? null, images }, { width: canvas.width, height: canvas.height });
+
+  const data = format === 'png' ? await canvas.encode('png') : await canvas.encode(format, Math.round(quality * 100));
+  await writeFile(out, data);
+  console.log(`Wrote ${out} (${canvas.width} × ${canvas.height}, ${config.aspectRatio})`);
+};
+
+main().catch((err: unknown) => {
+  console.error(`Error: ${err instanceof Error ? err.message : err}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,119 @@
+import React from 'react';
+import { AlignEdge, DistributeAxis } from '../services/alignment';
+
+interface ArrangePanelProps {
+  selectionCount: number;
+  gridSize: number;
+  smartGuides: boolean;
+  canGroup: boolean;
+  canUngroup: boolean;
+  canCopyStyle: boolean;
+  canPasteStyle: boolean;
+  onAlign: (edge: AlignEdge) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+  onCopyStyle: () => void;
+  onPasteStyle: () => void;
+  onGridSizeChange: (size: number) => void;
+  onSmartGuidesChange: (enabled: boolean) => void;
+}
+
+const GRID_OPTIONS = [0, 1, 2, 5, 10];
+
+const ALIGN_BUTTONS: { edge: AlignEdge; label: string }[] = [
+  { edge: 'left', label: 'Left' },
+  { edge: 'center', label: 'Center' },
+  { edge: 'right', label: 'Right' },
+  { edge: 'top', label: 'Top' },
+  { edge: 'middle', label: 'Middle' },
+  { edge: 'bottom', label: 'Bottom' }
+];
+
+const ArrangePanel: React.FC<ArrangePanelProps> = ({
+  selectionCount, gridSize, smartGuides, canGroup, canUngroup, canCopyStyle, canPasteStyle,
+  onAlign, onDistribute, onGroup, onUngroup, onCopyStyle, onPasteStyle, onGridSizeChange, onSmartGuidesChange
+}) => (
+  <section className="space-y-4">
+    <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Arrange & Snapping</h3>
+    <div className="bg-white/[0.03] border border-white/5 p-4 rounded-2xl space-y-4">
+      <div className="space-y-1.5">
+        <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">
+          Align {selectionCount > 1 ? 'Selection' : 'To Canvas'}
+        </span>
+        <div className="grid grid-cols-6 gap-1">
+          {ALIGN_BUTTONS.map(({ edge, label }) => (
+            <button
+              key={edge}
+              onClick={() => onAlign(edge)}
+              disabled={selectionCount === 0}
+              className="py-1.5 rounded-md text-[8px] font-black uppercase border border-white/10 text-slate-500 hover:text-white disabled:opacity-30"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Distribute (3+ layers)</span>
+        <div className="grid grid-cols-2 gap-1">
+          {(['horizontal', 'vertical'] as const).map(axis => (
+            <button
+              key={axis}
+              onClick={() => onDistribute(axis)}
+              disabled={selectionCount < 3}
+              className="py-1.5 rounded-md text-[8px] font-black uppercase border border-white/10 text-slate-500 hover:text-white disabled:opacity-30"
+            >
+              {axis}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">
+          Selection {selectionCount > 0 ? `(${selectionCount})` : ''}
+        </span>
+        <div className="grid grid-cols-4 gap-1">
+          {[
+            { label: 'Group', onClick: onGroup, enabled: canGroup },
+            { label: 'Ungroup', onClick: onUngroup, enabled: canUngroup },
+            { label: 'Copy Style', onClick: onCopyStyle, enabled: canCopyStyle },
+            { label: 'Paste Style', onClick: onPasteStyle, enabled: canPasteStyle }
+          ].map(({ label, onClick, enabled }) => (
+            <button
+              key={label}
+              onClick={onClick}
+              disabled={!enabled}
+              className="py-1.5 rounded-md text-[8px] font-black uppercase border border-white/10 text-slate-500 hover:text-white disabled:opacity-30"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-1">
+          <span className="text-[8px] font-bold text-slate-600 uppercase mr-1">Grid</span>
+          {GRID_OPTIONS.map(size => (
+            <button
+              key={size}
+              onClick={() => onGridSizeChange(size)}
+              className={`px-2 py-1 rounded-md text-[8px] font-black uppercase border ${gridSize === size ? 'bg-white text-black border-white' : 'border-white/10 text-slate-500 hover:text-white'}`}
+            >
+              {size === 0 ? 'Off' : `${size}%`}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onSmartGuidesChange(!smartGuides)}
+          className={`text-[8px] px-3 py-1 rounded-full font-black uppercase transition-all ${smartGuides ? 'bg-white text-black' : 'bg-white/5 text-slate-600'}`}
+        >
+          Smart Guides
+        </button>
+      </div>
+      <p className="text-[8px] text-slate-600 uppercase font-bold">Hold Alt while dragging to place freely · Shift+Click or drag a box to multi-select · Arrows nudge</p>
+    </div>
+  </section>
+);
+
+export default ArrangePanel;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { AspectRatio } from '../types';
+
+interface BackgroundEditPanelProps {
+  busy: boolean;
+  brushActive: boolean;
+  brushSize: number; // fraction of the poster width
+  strokeCount: number;
+  variationCount: number;
+  extendTo: AspectRatio | null; // the format's ratio when the background doesn't already fill it
+  autoExtend: boolean;
+  onBrushChange: (active: boolean, size: number) => void;
+  onClearStrokes: () => void;
+  onEdit: (instruction: string) => void;
+  onInpaint: (prompt: string) => void;
+  onVary: () => void;
+  onExtend: () => void;
+  onAutoExtendChange: (enabled: boolean) => void;
+  onUpscale: () => void;
+}
+
+const BackgroundEditPanel: React.FC<BackgroundEditPanelProps> = ({
+  busy, brushActive, brushSize, strokeCount, variationCount, extendTo, autoExtend,
+  onBrushChange, onClearStrokes, onEdit, onInpaint, onVary, onExtend, onAutoExtendChange, onUpscale
+}) => {
+  const [editPrompt, setEditPrompt] = useState('');
+  const [inpaintPrompt, setInpaintPrompt] = useState('');
+  const fieldClass = "flex-1 min-w-0 bg-black/40 border border-white/5 rounded-xl p-2 text-[10px] text-slate-300 outline-none focus:border-blue-500/50";
+  const actionClass = "px-3 rounded-xl bg-white/5 text-white text-[9px] font-black uppercase hover:bg-white/10 disabled:opacity-50";
+
+  const edit = () => {
+    const instruction = editPrompt.trim();
+    if (instruction) onEdit(instruction);
+  };
+
+  const inpaint = () => {
+    const prompt = inpaintPrompt.trim();
+    if (prompt && strokeCount > 0) onInpaint(prompt);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          className={fieldClass}
+          value={editPrompt}
+          onChange={e => setEditPrompt(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') edit(); }}
+          placeholder="Edit: make the sky darker..."
+        />
+        <button onClick={edit} disabled={busy || !editPrompt.trim()} className={actionClass}>
+          Edit
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onBrushChange(!brushActive, brushSize)}
+          title="Paint over the part of the background to replace"
+          className={`flex-1 py-2 rounded-xl text-[9px] font-black uppercase border ${brushActive ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white'}`}
+        >
+          {brushActive ? 'Brushing…' : 'Inpaint Brush'}
+        </button>
+        <button onClick={onVary} disabled={busy} title="Close variations of the current background" className={`flex-1 py-2 ${actionClass}`}>
+          {variationCount > 1 ? `${variationCount} Variations` : 'Variation'}
+        </button>
+        <button onClick={onUpscale} disabled={busy} title="Redraw the background at twice the resolution" className={`py-2 ${actionClass}`}>
+          Upscale 2×
+        </button>
+      </div>
+
+      {brushActive && (
+        <div className="space-y-2 bg-black/20 border border-white/5 rounded-xl p-2">
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-[8px] font-bold text-slate-600 uppercase px-1">
+              <span>Brush Size</span>
+              <span className="text-slate-400">{Math.round(brushSize * 100)}%</span>
+            </div>
+            <input
+              type="range" min={0.01} max={0.2} step={0.01}
+              value={brushSize}
+              onChange={e => onBrushChange(true, parseFloat(e.target.value))}
+              className="w-full accent-white h-1.5 bg-white/5 rounded-full appearance-none cursor-pointer"
+            />
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className={fieldClass}
+              value={inpaintPrompt}
+              onChange={e => setInpaintPrompt(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') inpaint(); }}
+              placeholder="Replace the painted area with..."
+            />
+            <button onClick={inpaint} disabled={busy || !strokeCount || !inpaintPrompt.trim()} className={actionClass}>
+              Apply
+            </button>
+            <button onClick={onClearStrokes} disabled={!strokeCount} className={actionClass}>
+              Clear
+            </button>
+          </div>
+          {!strokeCount && <p className="text-[9px] text-slate-500 ml-1">Paint over the poster to mark what to replace.</p>}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {extendTo && (
+          <button onClick={onExtend} disabled={busy} title="Paint the missing edges instead of cropping the background" className={`py-2 ${actionClass}`}>
+            Extend to {extendTo}
+          </button>
+        )}
+        <button
+          onClick={() => onAutoExtendChange(!autoExtend)}
+          className={`flex-1 text-[8px] px-3 py-2 rounded-xl font-black uppercase transition-all ${autoExtend ? 'bg-white text-black' : 'bg-white/5 text-slate-500'}`}
+        >
+          {autoExtend ? 'Extend background on format switch' : 'Crop background on format switch'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundEditPanel;
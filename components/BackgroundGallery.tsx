@@ -0,0 +1,90 @@
+import React from 'react';
+import { BackgroundKind, GeneratedBackground } from '../types';
+
+interface BackgroundGalleryProps {
+  history: GeneratedBackground[];
+  current: string | null;
+  onSelect: (entry: GeneratedBackground) => void;
+  onUsePrompt: (entry: GeneratedBackground) => void;
+  onTogglePin: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClearUnpinned: () => void;
+}
+
+const KIND_LABELS: Record<BackgroundKind, string> = {
+  generated: 'Generated',
+  edited: 'Edited',
+  inpainted: 'Inpainted',
+  outpainted: 'Extended',
+  variation: 'Variation',
+  upscaled: 'Upscaled'
+};
+
+const BackgroundGallery: React.FC<BackgroundGalleryProps> = ({
+  history, current, onSelect, onUsePrompt, onTogglePin, onRemove, onClearUnpinned
+}) => {
+  if (!history.length) return null;
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Backgrounds · {history.length}</span>
+        {history.some(entry => !entry.pinned) && (
+          <button onClick={onClearUnpinned} className="text-[8px] font-black uppercase text-slate-500 hover:text-red-400">
+            Clear Unpinned
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {history.map(entry => {
+          const active = entry.src === current;
+          return (
+            <div
+              key={entry.id}
+              className={`group relative aspect-square rounded-xl overflow-hidden border ${active ? 'border-blue-500' : 'border-white/5 hover:border-white/30'}`}
+            >
+              <button
+                onClick={() => onSelect(entry)}
+                title={`${KIND_LABELS[entry.kind]} · ${entry.aspectRatio} · ${entry.model || entry.provider}\n${entry.prompt}`}
+                className="absolute inset-0 w-full h-full"
+              >
+                <img src={entry.src} alt={entry.prompt} className="w-full h-full object-cover" />
+              </button>
+              <span className="absolute bottom-1 left-1 px-1 rounded bg-black/70 text-[7px] font-black text-slate-300 pointer-events-none">
+                {entry.aspectRatio}{entry.kind !== 'generated' && ` · ${KIND_LABELS[entry.kind]}`}
+              </span>
+              <div className={`absolute top-1 right-1 flex gap-1 ${entry.pinned ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+                <button
+                  onClick={() => onTogglePin(entry.id)}
+                  title={entry.pinned ? 'Unpin' : 'Pin so it is never trimmed from the history'}
+                  className={`w-5 h-5 rounded-full text-[9px] font-black ${entry.pinned ? 'bg-blue-600 text-white' : 'bg-black/70 text-slate-300 hover:text-white'}`}
+                >
+                  ★
+                </button>
+                {!entry.pinned && (
+                  <button
+                    onClick={() => onRemove(entry.id)}
+                    title="Remove from history"
+                    className="w-5 h-5 rounded-full bg-black/70 text-slate-300 hover:text-red-400 text-[9px] font-black"
+                  >
+                    ×
+                  </button>
+                )}
+              </div>
+              {entry.kind === 'generated' && (
+                <button
+                  onClick={() => onUsePrompt(entry)}
+                  title="Copy this prompt back into the description"
+                  className="absolute top-1 left-1 px-1.5 h-5 rounded-full bg-black/70 text-[7px] font-black uppercase text-slate-300 hover:text-white opacity-0 group-hover:opacity-100"
+                >
+                  Prompt
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BackgroundGallery;
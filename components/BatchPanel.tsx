@@ -0,0 +1,129 @@
+import React from 'react';
+import { BATCH_TARGETS, BatchData, BatchMapping, BatchTarget } from '../services/batch';
+
+interface BatchPanelProps {
+  data: BatchData | null;
+  mapping: BatchMapping;
+  template: string;
+  filenames: string[];
+  previews: (string | null)[];
+  fieldLabels: Record<BatchTarget, string>;
+  perRowBackgrounds: boolean;
+  progress: { done: number; total: number } | null;
+  onImport: (file: File) => void;
+  onClear: () => void;
+  onMappingChange: (target: BatchTarget, header: string | undefined) => void;
+  onTemplateChange: (template: string) => void;
+  onPerRowBackgroundsChange: (enabled: boolean) => void;
+  onApplyRow: (index: number) => void;
+  onExport: () => void;
+}
+
+const BatchPanel: React.FC<BatchPanelProps> = ({
+  data, mapping, template, filenames, previews, fieldLabels, perRowBackgrounds, progress,
+  onImport, onClear, onMappingChange, onTemplateChange, onPerRowBackgroundsChange, onApplyRow, onExport
+}) => {
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  if (!data) {
+    return (
+      <section className="space-y-4">
+        <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Batch Campaigns</h3>
+        <label className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-white/5 bg-white/[0.02] rounded-2xl cursor-pointer hover:bg-white/10 hover:border-white/20 transition-all group text-center">
+          <div className="text-[18px] mb-2 opacity-40 group-hover:opacity-100">📊</div>
+          <span className="text-[8px] font-black uppercase text-slate-500 group-hover:text-white">Import CSV / TSV</span>
+          <input type="file" className="hidden" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} />
+        </label>
+        <p className="text-[8px] text-slate-600 uppercase font-bold leading-relaxed">
+          One row per poster. Columns named after the campaign variables are linked automatically.
+        </p>
+      </section>
+    );
+  }
+
+  const isExporting = !!progress;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Batch Campaigns</h3>
+        <button onClick={onClear} disabled={isExporting} className="text-[8px] font-black uppercase text-slate-600 hover:text-white disabled:opacity-30">
+          Clear
+        </button>
+      </div>
+      <p className="text-[8px] text-slate-500 uppercase font-bold truncate">
+        {data.fileName} · {data.rows.length} rows · {data.headers.length} columns
+      </p>
+
+      <div className="bg-white/[0.03] border border-white/5 p-4 rounded-2xl space-y-2">
+        <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Column Mapping</span>
+        {BATCH_TARGETS.map(target => (
+          <div key={target} className="flex items-center gap-3">
+            <span className="w-24 shrink-0 text-[8px] font-black uppercase text-slate-400">{fieldLabels[target]}</span>
+            <select
+              value={mapping[target] ?? ''}
+              onChange={e => onMappingChange(target, e.target.value || undefined)}
+              className="flex-1 bg-black border border-white/10 rounded-lg px-2 py-1.5 text-[10px] text-white outline-none focus:border-white/30"
+            >
+              <option value="">Keep design value</option>
+              {data.headers.map(header => <option key={header} value={header}>{header}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">File Name Template</span>
+        <input
+          type="text"
+          value={template}
+          onChange={e => onTemplateChange(e.target.value)}
+          className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20 font-mono"
+        />
+        <p className="text-[8px] text-slate-600 font-bold ml-1">
+          Use {'{column}'} or {'{fieldName}'}, and {'{#}'} for the row number. First file: {filenames[0] ?? '—'}.png
+        </p>
+      </div>
+
+      <button
+        onClick={() => onPerRowBackgroundsChange(!perRowBackgrounds)}
+        disabled={!mapping.theme}
+        className={`w-full text-[8px] px-3 py-2 rounded-xl font-black uppercase transition-all disabled:opacity-30 ${perRowBackgrounds && mapping.theme ? 'bg-white text-black' : 'bg-white/5 text-slate-500'}`}
+      >
+        Generate a background per row from the theme column
+      </button>
+
+      <button
+        onClick={onExport}
+        disabled={isExporting}
+        className="w-full py-4 bg-white text-black text-[10px] font-black uppercase tracking-widest rounded-2xl hover:bg-slate-200 transition-all disabled:opacity-50"
+      >
+        {progress ? `Rendering ${progress.done} / ${progress.total}` : `Export ${data.rows.length} Posters (ZIP)`}
+      </button>
+
+      <div className="grid grid-cols-2 gap-3 pb-12">
+        {data.rows.map((_, i) => (
+          <button
+            key={i}
+            onClick={() => onApplyRow(i)}
+            title="Load this row into the editor"
+            className="text-left bg-white/[0.02] border border-white/5 rounded-xl overflow-hidden hover:border-white/20 transition-all"
+          >
+            <div className="aspect-square bg-black/40 flex items-center justify-center">
+              {previews[i]
+                ? <img src={previews[i] as string} alt="" className="max-w-full max-h-full object-contain" />
+                : <span className="text-[8px] font-black uppercase text-slate-700">Rendering…</span>}
+            </div>
+            <p className="px-2 py-1.5 text-[8px] font-bold text-slate-500 truncate">{filenames[i]}.png</p>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default BatchPanel;
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { BrandKit, BrandPalette } from '../types';
+import { ColorWarning } from '../services/color';
+import { createBrandItemId } from '../services/brand';
+
+interface BrandKitPanelProps {
+  kits: BrandKit[];
+  activeKitId: string | null;
+  offBrand: ColorWarning[];
+  onSelect: (id: string | null) => void;
+  onCreate: () => void;
+  onSave: (kit: BrandKit) => void;
+  onDelete: (kit: BrandKit) => void;
+  onApplyDefaults: (kit: BrandKit) => void;
+  onCaptureDefaults: (kit: BrandKit) => void;
+  onSnapColors: (kit: BrandKit) => void;
+  onAddLogo: (kit: BrandKit, file: File) => void;
+}
+
+const inputClass = "w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20";
+
+const BrandKitPanel: React.FC<BrandKitPanelProps> = ({
+  kits, activeKitId, offBrand, onSelect, onCreate, onSave, onDelete,
+  onApplyDefaults, onCaptureDefaults, onSnapColors, onAddLogo
+}) => {
+  const [draftColor, setDraftColor] = useState('#ffffff');
+  const [draftFont, setDraftFont] = useState('');
+  const kit = kits.find(k => k.id === activeKitId);
+
+  const update = (patch: Partial<BrandKit>) => {
+    if (kit) onSave({ ...kit, ...patch, updatedAt: new Date().toISOString() });
+  };
+  const updatePalette = (id: string, patch: Partial<BrandPalette>) =>
+    update({ palettes: kit!.palettes.map(p => p.id === id ? { ...p, ...patch } : p) });
+
+  const addFont = () => {
+    const font = draftFont.trim();
+    if (kit && font && !kit.fonts.includes(font)) update({ fonts: [...kit.fonts, font] });
+    setDraftFont('');
+  };
+
+  const handleLogoFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (kit && file) onAddLogo(kit, file);
+  };
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <span className="w-1 h-1 bg-blue-500 rounded-full"></span>
+          Brand Kits
+        </h3>
+        <button
+          onClick={onCreate}
+          className="text-[8px] px-3 py-1 rounded-full font-black uppercase bg-white text-black hover:bg-slate-200 transition-all"
+        >
+          + From Design
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {[null, ...kits].map(k => (
+          <button
+            key={k?.id ?? 'none'}
+            onClick={() => onSelect(k?.id ?? null)}
+            className={`px-3 py-2 rounded-xl text-[9px] font-black uppercase border transition-all ${activeKitId === (k?.id ?? null) ? 'bg-white text-black border-white' : 'border-white/10 text-slate-500 hover:text-white'}`}
+          >
+            {k ? <>{k.locked && '🔒 '}{k.name}</> : 'No Brand'}
+          </button>
+        ))}
+      </div>
+
+      {!kit && (
+        <p className="text-[8px] text-slate-600 uppercase font-bold leading-relaxed">
+          Pick a brand for this design, or save the current design's colors, logo and layout as a new kit.
+        </p>
+      )}
+
+      {kit && (
+        <>
+          <div className="bg-white/[0.03] border border-white/5 p-4 rounded-2xl space-y-3">
+            <div className="space-y-1">
+              <label className="text-[8px] font-bold text-slate-600 uppercase ml-1">Kit Name</label>
+              <input type="text" className={inputClass} value={kit.name} onChange={e => update({ name: e.target.value })} />
+            </div>
+            <button
+              onClick={() => update({ locked: !kit.locked })}
+              className={`w-full text-[8px] px-3 py-2 rounded-xl font-black uppercase transition-all ${kit.locked ? 'bg-white text-black' : 'bg-white/5 text-slate-500'}`}
+            >
+              {kit.locked ? '🔒 Locked · Palette colors only' : 'Unlocked · Any color allowed'}
+            </button>
+            {offBrand.length > 0 && (
+              <div className="space-y-1.5">
+                <p className="text-[9px] font-black text-amber-400 uppercase">{offBrand.length} off-brand color{offBrand.length === 1 ? '' : 's'}</p>
+                {offBrand.map(w => (
+                  <div key={`${w.layer}-${w.color}`} className="flex items-center gap-2 text-[9px] text-slate-400">
+                    <span className="w-3 h-3 rounded-sm border border-white/20" style={{ background: w.color }}></span>
+                    <span className="font-bold">{w.layer}</span>
+                    <span className="font-mono text-slate-500">{w.color}</span>
+                  </div>
+                ))}
+                <button onClick={() => onSnapColors(kit)} className="w-full py-2 rounded-xl text-[8px] font-black uppercase border border-amber-400/30 text-amber-300 hover:bg-amber-400/10">
+                  Snap to Palette
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Palettes</span>
+              <button
+                onClick={() => update({ palettes: [...kit.palettes, { id: createBrandItemId('palette'), name: 'New Palette', colors: [] }] })}
+                className="text-[8px] font-black uppercase text-slate-500 hover:text-white"
+              >
+                + Palette
+              </button>
+            </div>
+            {kit.palettes.map(palette => (
+              <div key={palette.id} className="bg-white/[0.03] border border-white/5 p-3 rounded-2xl space-y-2">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    className="flex-1 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white outline-none"
+                    value={palette.name}
+                    onChange={e => updatePalette(palette.id, { name: e.target.value })}
+                  />
+                  <button
+                    onClick={() => update({ palettes: kit.palettes.filter(p => p.id !== palette.id) })}
+                    className="text-[8px] px-2 rounded-md font-black uppercase border border-red-500/20 text-red-400/70 hover:text-red-300"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-1.5 items-center">
+                  {palette.colors.map(color => (
+                    <button
+                      key={color}
+                      title={`Remove ${color}`}
+                      onClick={() => updatePalette(palette.id, { colors: palette.colors.filter(c => c !== color) })}
+                      className="w-6 h-6 rounded-md border border-white/20 hover:scale-110 transition-all"
+                      style={{ background: color }}
+                    />
+                  ))}
+                  <input type="color" value={draftColor} onChange={e => setDraftColor(e.target.value)} className="w-6 h-6 bg-black border border-white/10 rounded-md cursor-pointer" />
+                  <button
+                    onClick={() => !palette.colors.includes(draftColor) && updatePalette(palette.id, { colors: [...palette.colors, draftColor] })}
+                    className="text-[8px] px-2 py-1 rounded-md font-black uppercase border border-white/10 text-slate-500 hover:text-white"
+                  >
+                    + Add
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Approved Logos</span>
+            <div className="grid grid-cols-3 gap-2">
+              {kit.logos.map(logo => (
+                <div key={logo.id} className="bg-black/40 border border-white/5 rounded-xl p-2 space-y-1">
+                  <img src={logo.src} alt={logo.name} className="w-full h-10 object-contain" />
+                  <button
+                    onClick={() => update({ logos: kit.logos.filter(l => l.id !== logo.id) })}
+                    className="w-full text-[7px] py-0.5 rounded-md font-black uppercase border border-white/10 text-slate-500 hover:text-red-300"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <label className="flex items-center justify-center p-2 border-2 border-dashed border-white/5 bg-white/[0.02] rounded-xl cursor-pointer hover:bg-white/10 hover:border-white/20 transition-all">
+                <span className="text-[8px] font-black uppercase text-slate-500">+ Logo</span>
+                <input type="file" className="hidden" accept="image/*" onChange={handleLogoFile} />
+              </label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Approved Fonts</span>
+            <div className="flex flex-wrap gap-1.5">
+              {kit.fonts.map(font => (
+                <button
+                  key={font}
+                  title={`Remove ${font}`}
+                  onClick={() => update({ fonts: kit.fonts.filter(f => f !== font) })}
+                  className="px-2 py-1 rounded-md text-[9px] font-bold border border-white/10 text-slate-300 hover:text-red-300"
+                  style={{ fontFamily: font }}
+                >
+                  {font} ✕
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Font family"
+                className="flex-1 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white outline-none"
+                value={draftFont}
+                onChange={e => setDraftFont(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') addFont(); }}
+              />
+              <button onClick={addFont} className="text-[8px] px-2 rounded-md font-black uppercase border border-white/10 text-slate-500 hover:text-white">+ Add</button>
+            </div>
+          </div>
+
+          <div className="bg-white/[0.03] border border-white/5 p-4 rounded-2xl space-y-2">
+            <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Design Defaults</span>
+            <p className="text-[8px] text-slate-600 uppercase font-bold leading-relaxed">
+              New designs for this brand start from its saved layout, styling, logo and theme.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={() => onCaptureDefaults(kit)} className="py-2 rounded-xl text-[8px] font-black uppercase border border-white/10 text-slate-500 hover:text-white">
+                Save Current Design
+              </button>
+              <button onClick={() => onApplyDefaults(kit)} className="py-2 rounded-xl text-[8px] font-black uppercase bg-white text-black hover:bg-slate-200">
+                Apply to Design
+              </button>
+            </div>
+          </div>
+
+          <button
+            onClick={() => { if (confirm(`Delete the "${kit.name}" brand kit?`)) onDelete(kit); }}
+            className="w-full text-[8px] py-2 rounded-xl font-black uppercase border border-red-500/20 text-red-400/70 hover:text-red-300"
+          >
+            Delete Kit
+          </button>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default BrandKitPanel;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { sameColor } from '../services/color';
+
+interface ColorFieldProps {
+  label: string;
+  value: string;
+  swatches: string[];
+  locked: boolean;
+  onChange: (value: string) => void;
+}
+
+const ColorField: React.FC<ColorFieldProps> = ({ label, value, swatches, locked, onChange }) => (
+  <div className="flex flex-col gap-1.5">
+    <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">{label}</span>
+    {!(locked && swatches.length) && (
+      <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="w-full h-8 bg-black border border-white/10 rounded-lg cursor-pointer opacity-80 hover:opacity-100 transition-all" />
+    )}
+    {swatches.length > 0 && (
+      <div className="flex flex-wrap gap-1">
+        {swatches.map(color => (
+          <button
+            key={color}
+            title={color}
+            onClick={(e) => { e.stopPropagation(); onChange(color); }}
+            className={`w-4 h-4 rounded-full border transition-all ${sameColor(color, value) ? 'border-white scale-110' : 'border-white/10 hover:border-white/50'}`}
+            style={{ background: color }}
+          />
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default ColorField;
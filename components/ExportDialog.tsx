@@ -0,0 +1,190 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PosterConfig } from '../types';
+import {
+  BLEED_OPTIONS_MM, cmykWarnings, DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS, EXPORT_SCALES, ExportFormat, ExportOptions,
+  formatFileSize, MIN_PRINT_DPI, outputSize, PRINT_WIDTHS_MM, printMetrics, supportsMime
+} from '../services/export';
+
+interface ExportDialogProps {
+  config: PosterConfig;
+  // Share of the poster in colors that may dull in CMYK, 0–1
+  gamutShare: number;
+  onRender: (options: ExportOptions) => Promise<Blob>;
+  onDownload: (blob: Blob, options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+const ESTIMATE_DELAY_MS = 350;
+
+const optionButton = (active: boolean) =>
+  `px-3 py-2 rounded-xl text-[9px] font-black uppercase border transition-all disabled:opacity-30 ${active ? 'bg-white text-black border-white' : 'border-white/10 text-slate-500 hover:text-white'}`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ config, gamutShare, onRender, onDownload, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [estimate, setEstimate] = useState<{ key: string; blob: Blob } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const webpSupported = useMemo(() => supportsMime('image/webp'), []);
+
+  const key = JSON.stringify(options);
+  const format = EXPORT_FORMATS[options.format];
+  const isPdf = options.format === 'pdf';
+  const isSvg = options.format === 'svg';
+  const size = outputSize(config, options.scale);
+  const print = printMetrics(config, options);
+  const colorWarnings = useMemo(() => isPdf ? cmykWarnings(config) : [], [config, isPdf]);
+
+  const update = (patch: Partial<ExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  // Encodes in the background so the dialog can show the real file size for the current settings
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    const timer = window.setTimeout(() => {
+      onRender(options)
+        .then(blob => { if (!cancelled) setEstimate({ key, blob }); })
+        .catch((err: unknown) => { if (!cancelled) setError(err instanceof Error ? err.message : "Export failed."); });
+    }, ESTIMATE_DELAY_MS);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [key]);
+
+  const handleDownload = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const blob = estimate?.key === key ? estimate.blob : await onRender(options);
+      onDownload(blob, options);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Export failed.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="bg-[#121212] border border-white/10 max-w-xl w-full rounded-[2.5rem] p-8 space-y-6 shadow-[0_0_100px_rgba(0,0,0,0.8)] max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-black text-white uppercase tracking-tighter">Export Poster</h2>
+            <p className="text-xs text-slate-500 uppercase font-bold tracking-widest mt-1">{config.aspectRatio} · {config.eventName}</p>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 bg-white/5 hover:bg-white/10 rounded-full flex items-center justify-center text-xl">✕</button>
+        </div>
+
+        <div className="space-y-2">
+          <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Format</span>
+          <div className="grid grid-cols-5 gap-2">
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(id => (
+              <button
+                key={id}
+                onClick={() => update({ format: id })}
+                disabled={id === 'webp' && !webpSupported}
+                title={id === 'webp' && !webpSupported ? 'This browser cannot encode WebP' : undefined}
+                className={optionButton(options.format === id)}
+              >
+                {EXPORT_FORMATS[id].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {!isSvg && (
+          <div className="space-y-2">
+            <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Resolution</span>
+            <div className="grid grid-cols-3 gap-2">
+              {EXPORT_SCALES.map(scale => (
+                <button key={scale} onClick={() => update({ scale })} className={optionButton(options.scale === scale)}>
+                  {scale}x · {outputSize(config, scale).width}px
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {format.lossy && (
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-[8px] font-bold text-slate-600 uppercase px-1">
+              <span>Quality</span>
+              <span className="text-slate-400">{Math.round(options.quality * 100)}%</span>
+            </div>
+            <input
+              type="range" min="0.5" max="1" step="0.01"
+              value={options.quality}
+              onChange={e => update({ quality: parseFloat(e.target.value) })}
+              className="w-full accent-white h-1.5 bg-white/5 rounded-full appearance-none cursor-pointer"
+            />
+          </div>
+        )}
+
+        {isPdf && (
+          <div className="bg-white/[0.03] border border-white/5 p-4 rounded-2xl space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Print Width</span>
+                <div className="flex gap-1">
+                  {Object.keys(PRINT_WIDTHS_MM).map(name => (
+                    <button key={name} onClick={() => update({ printWidth: name })} className={optionButton(options.printWidth === name)}>{name}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Bleed</span>
+                <div className="flex gap-1">
+                  {BLEED_OPTIONS_MM.map(mm => (
+                    <button key={mm} onClick={() => update({ bleedMm: mm })} className={optionButton(options.bleedMm === mm)}>{mm} mm</button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <p className="text-[9px] font-bold text-slate-400 uppercase">
+              Trim {Math.round(print.widthMm)} × {Math.round(print.heightMm)} mm · {print.dpi} DPI
+            </p>
+            {print.dpi < MIN_PRINT_DPI && (
+              <p className="text-[9px] font-bold text-amber-400 uppercase">Low resolution for this size — choose a higher resolution or a smaller print width.</p>
+            )}
+            {(colorWarnings.length > 0 || gamutShare > 0.05) && (
+              <div className="space-y-1.5">
+                <p className="text-[9px] font-black text-amber-400 uppercase">CMYK color warnings</p>
+                {colorWarnings.map(w => (
+                  <div key={`${w.layer}-${w.color}`} className="flex items-center gap-2 text-[9px] text-slate-400">
+                    <span className="w-3 h-3 rounded-sm border border-white/20" style={{ background: w.color }}></span>
+                    <span className="font-bold">{w.layer}</span>
+                    <span className="font-mono text-slate-500">{w.color}</span>
+                  </div>
+                ))}
+                {gamutShare > 0.05 && (
+                  <p className="text-[9px] text-slate-400">About {Math.round(gamutShare * 100)}% of the poster uses vivid colors that may print duller.</p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {isSvg && (
+          <p className="text-[9px] font-bold text-slate-500 uppercase leading-relaxed">
+            Text, badges and buttons stay editable vector objects. The background and images are embedded.
+          </p>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-[9px] font-bold text-slate-500 uppercase">
+            {!isSvg && <>{size.width} × {size.height}px · </>}
+            {estimate?.key === key ? `≈ ${formatFileSize(estimate.blob.size)}` : 'Estimating…'}
+          </p>
+          <button
+            onClick={handleDownload}
+            disabled={isWorking}
+            className="bg-blue-600 text-white px-6 py-3 rounded-xl text-xs font-black uppercase transition-all shadow-[0_0_20px_rgba(37,99,235,0.4)] hover:bg-blue-500 active:scale-95 disabled:opacity-50"
+          >
+            {isWorking ? 'Rendering…' : `Download ${format.label}`}
+          </button>
+        </div>
+        {error && <p className="text-[9px] font-black text-red-400 uppercase">⚠️ {error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { AspectRatio } from '../types';
+import { FORMAT_LABELS } from '../services/formats';
+
+interface FormatPanelProps {
+  current: AspectRatio;
+  previews: Partial<Record<AspectRatio, string | null>>;
+  customFormats: AspectRatio[];
+  regenerateBackgrounds: boolean;
+  progress: { done: number; total: number } | null;
+  onSelect: (ratio: AspectRatio) => void;
+  onCustomize: (ratio: AspectRatio) => void;
+  onReset: (ratio: AspectRatio) => void;
+  onRegenerateChange: (enabled: boolean) => void;
+  onExportPack: () => void;
+}
+
+const FormatPanel: React.FC<FormatPanelProps> = ({
+  current, previews, customFormats, regenerateBackgrounds, progress,
+  onSelect, onCustomize, onReset, onRegenerateChange, onExportPack
+}) => (
+  <section className="space-y-4">
+    <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Campaign Formats</h3>
+    <div className="grid grid-cols-4 gap-2 items-end">
+      {Object.values(AspectRatio).map(ratio => {
+        const isCustom = customFormats.includes(ratio);
+        const [w, h] = ratio.split(':').map(Number);
+        return (
+          <div key={ratio} className="space-y-1.5">
+            <button
+              onClick={() => onSelect(ratio)}
+              className={`w-full rounded-lg overflow-hidden border transition-all ${current === ratio ? 'border-blue-500/70' : 'border-white/5 hover:border-white/20'}`}
+              style={{ aspectRatio: `${w} / ${h}` }}
+            >
+              {previews[ratio]
+                ? <img src={previews[ratio] as string} alt="" className="w-full h-full object-cover" />
+                : <div className="w-full h-full bg-white/[0.03]" />}
+            </button>
+            <p className="text-[8px] font-black uppercase text-slate-400 text-center">{FORMAT_LABELS[ratio]} {ratio}</p>
+            <button
+              onClick={() => isCustom ? onReset(ratio) : onCustomize(ratio)}
+              title={isCustom ? 'Discard this layout and follow the shared one' : 'Lay this format out separately'}
+              className={`w-full py-1 rounded-md text-[7px] font-black uppercase border ${isCustom ? 'bg-blue-600/10 border-blue-500/50 text-blue-300' : 'border-white/10 text-slate-500 hover:text-white'}`}
+            >
+              {isCustom ? 'Custom · Reset' : 'Shared · Customize'}
+            </button>
+          </div>
+        );
+      })}
+    </div>
+    <button
+      onClick={() => onRegenerateChange(!regenerateBackgrounds)}
+      className={`w-full text-[8px] px-3 py-2 rounded-xl font-black uppercase transition-all ${regenerateBackgrounds ? 'bg-white text-black' : 'bg-white/5 text-slate-500'}`}
+    >
+      {regenerateBackgrounds ? 'Regenerate background per format' : 'Smart-crop background per format'}
+    </button>
+    <button
+      onClick={onExportPack}
+      disabled={!!progress}
+      className="w-full py-3 bg-white text-black text-[10px] font-black uppercase tracking-widest rounded-2xl hover:bg-slate-200 transition-all disabled:opacity-50"
+    >
+      {progress ? `Rendering ${progress.done} / ${progress.total}` : 'Export Campaign Pack (ZIP)'}
+    </button>
+  </section>
+);
+
+export default FormatPanel;
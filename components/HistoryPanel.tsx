@@ -0,0 +1,63 @@
+import React from 'react';
+import { HistoryEntry } from '../hooks/usePosterHistory';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump }) => (
+  <section className="space-y-4">
+    <div className="flex items-center justify-between">
+      <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+        <span className="w-1 h-1 bg-blue-500 rounded-full"></span>
+        Edit History
+      </h3>
+      <div className="flex gap-2">
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          title="Undo (Ctrl+Z)"
+          className="text-[8px] px-3 py-1 rounded-full font-black uppercase bg-white/5 text-slate-400 hover:text-white disabled:opacity-30 transition-all"
+        >
+          Undo
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          title="Redo (Ctrl+Shift+Z)"
+          className="text-[8px] px-3 py-1 rounded-full font-black uppercase bg-white/5 text-slate-400 hover:text-white disabled:opacity-30 transition-all"
+        >
+          Redo
+        </button>
+      </div>
+    </div>
+
+    <ol className="space-y-1">
+      {entries.map((entry, i) => (
+        <li key={`${entry.timestamp}-${i}`}>
+          <button
+            onClick={() => onJump(i)}
+            className={`w-full flex items-center justify-between px-3 py-2 rounded-xl border text-left transition-all ${
+              i === index
+                ? 'bg-blue-600/10 border-blue-500/50 text-white'
+                : i > index
+                  ? 'bg-transparent border-white/5 text-slate-700 hover:text-slate-400'
+                  : 'bg-white/[0.02] border-white/5 text-slate-400 hover:border-white/20'
+            }`}
+          >
+            <span className="text-[10px] font-black uppercase tracking-tight truncate">{entry.label}</span>
+            <span className="text-[8px] font-bold text-slate-600 shrink-0 ml-2">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+          </button>
+        </li>
+      )).reverse()}
+    </ol>
+  </section>
+);
+
+export default HistoryPanel;
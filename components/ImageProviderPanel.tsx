@@ -0,0 +1,44 @@
+import React from 'react';
+import { ImageProviderSettings } from '../types';
+import { IMAGE_PROVIDERS } from '../services/imageProvider';
+
+interface ImageProviderPanelProps {
+  settings: ImageProviderSettings;
+  onChange: (settings: ImageProviderSettings) => void;
+}
+
+const ImageProviderPanel: React.FC<ImageProviderPanelProps> = ({ settings, onChange }) => {
+  const provider = IMAGE_PROVIDERS.find(p => p.id === settings.provider) ?? IMAGE_PROVIDERS[0];
+  const fieldClass = "w-full bg-black/40 border border-white/5 rounded-xl p-2 text-[10px] text-white outline-none focus:border-white/20 disabled:opacity-40";
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="flex flex-col gap-1.5">
+        <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Image Engine</span>
+        <select
+          className={fieldClass}
+          value={settings.provider}
+          onChange={e => onChange({ ...settings, provider: e.target.value as ImageProviderSettings['provider'] })}
+        >
+          {IMAGE_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </div>
+      <div className="flex flex-col gap-1.5">
+        <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Model</span>
+        <input
+          type="text"
+          list="image-provider-models"
+          className={fieldClass}
+          disabled={!provider.models.length}
+          placeholder={provider.models.length ? provider.models[0] : 'Procedural, offline'}
+          value={provider.models.length ? settings.model : ''}
+          onChange={e => onChange({ ...settings, model: e.target.value })}
+        />
+        <datalist id="image-provider-models">
+          {provider.models.map(m => <option key={m} value={m} />)}
+        </datalist>
+      </div>
+    </div>
+  );
+};
+
+export default ImageProviderPanel;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { AspectRatio, LanguageVariant } from '../types';
+import { LANGUAGE_OPTIONS, languageName } from '../services/languages';
+
+interface LanguagePanelProps {
+  sourceLanguage: string;
+  languages: LanguageVariant[];
+  active: string | null;
+  progress: Record<string, { done: number; total: number }>;
+  ratio: AspectRatio;
+  customLayout: boolean; // the active translation has its own placements in this format
+  exportProgress: { done: number; total: number } | null;
+  onSelect: (code: string | null) => void;
+  onAdd: (code: string) => void;
+  onRemove: (code: string) => void;
+  onSourceChange: (code: string) => void;
+  onCustomizeLayout: () => void;
+  onResetLayout: () => void;
+  onExportAll: () => void;
+}
+
+const LanguagePanel: React.FC<LanguagePanelProps> = ({
+  sourceLanguage, languages, active, progress, ratio, customLayout, exportProgress,
+  onSelect, onAdd, onRemove, onSourceChange, onCustomizeLayout, onResetLayout, onExportAll
+}) => {
+  const used = [sourceLanguage, ...languages.map(l => l.code)];
+  const available = LANGUAGE_OPTIONS.filter(l => !used.includes(l.code));
+  const activeVariant = languages.find(l => l.code === active);
+  const selectClass = "w-full bg-white/[0.03] border border-white/5 rounded-xl p-2 text-[10px] text-white outline-none focus:border-white/20";
+  return (
+    <section className="space-y-4">
+      <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest px-1">Languages</h3>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => onSelect(null)}
+          title="The copy typed into the design"
+          className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase border ${active === null ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white'}`}
+        >
+          {sourceLanguage} · Source
+        </button>
+        {languages.map(l => {
+          const p = progress[l.code];
+          return (
+            <button
+              key={l.code}
+              onClick={() => onSelect(l.code)}
+              title={`${l.name}: ${p?.done ?? 0} of ${p?.total ?? 0} texts translated`}
+              className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase border ${active === l.code ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white'}`}
+            >
+              {l.code}
+              {p && p.done < p.total && <span className="ml-1 text-amber-500">{p.done}/{p.total}</span>}
+            </button>
+          );
+        })}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="flex flex-col gap-1.5">
+          <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Source Language</span>
+          <select className={selectClass} value={sourceLanguage} onChange={e => onSourceChange(e.target.value)}>
+            {!LANGUAGE_OPTIONS.some(l => l.code === sourceLanguage) && <option value={sourceLanguage}>{languageName(sourceLanguage)}</option>}
+            {LANGUAGE_OPTIONS.filter(l => l.code === sourceLanguage || !languages.some(v => v.code === l.code)).map(l => (
+              <option key={l.code} value={l.code}>{l.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Add Translation</span>
+          <select className={selectClass} value="" disabled={!available.length} onChange={e => e.target.value && onAdd(e.target.value)}>
+            <option value="">Choose…</option>
+            {available.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+          </select>
+        </div>
+      </div>
+      {activeVariant && (
+        <div className="bg-white/[0.03] border border-white/5 rounded-2xl p-3 space-y-3">
+          <p className="text-[8px] font-bold text-slate-600 uppercase ml-1">
+            Editing {activeVariant.name}. Copy left untouched shows the {languageName(sourceLanguage)} text.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={customLayout ? onResetLayout : onCustomizeLayout}
+              title={customLayout ? 'Discard these placements and follow the source layout' : `Place layers separately for ${activeVariant.name} in ${ratio}`}
+              className={`flex-1 py-1.5 rounded-lg text-[8px] font-black uppercase border ${customLayout ? 'bg-blue-600/10 border-blue-500/50 text-blue-300' : 'border-white/10 text-slate-500 hover:text-white'}`}
+            >
+              {customLayout ? `Own ${ratio} Layout · Reset` : `Shared Layout · Customize ${ratio}`}
+            </button>
+            <button
+              onClick={() => onRemove(activeVariant.code)}
+              className="px-3 py-1.5 rounded-lg text-[8px] font-black uppercase border border-white/10 text-slate-500 hover:text-red-400 hover:border-red-500/40"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      )}
+      <button
+        onClick={onExportAll}
+        disabled={!!exportProgress || !languages.length}
+        className="w-full py-3 bg-white/5 text-white text-[10px] font-black uppercase tracking-widest rounded-2xl hover:bg-white/10 transition-all disabled:opacity-50"
+      >
+        {exportProgress ? `Rendering ${exportProgress.done} / ${exportProgress.total}` : 'Export All Languages (ZIP)'}
+      </button>
+    </section>
+  );
+};
+
+export default LanguagePanel;
@@ -0,0 +1,569 @@
+import React from 'react';
+import { BilingualText, ImageLayer, LayerType, PosterLayer, TextDirection, TextLayer, TextTransform, TextualLayer } from '../types';
+import { isTextual, LAYER_TYPE_LABELS, TEXT_EFFECT_DEFAULTS } from '../services/layers';
+import { FONT_FILE_TYPES, FONT_WEIGHT_LABELS, FontOption } from '../services/fonts';
+import { DEFAULT_FONT_FAMILY, fontFamily, fontWeight, isBold } from '../services/renderer';
+import ColorField from './ColorField';
+
+interface LayerPanelProps {
+  layers: PosterLayer[];
+  selectedIds: string[];
+  fieldLabels: Record<string, string>;
+  // Brand palette offered next to every color picker; when locked only these can be chosen
+  swatches: string[];
+  lockColors: boolean;
+  onSelect: (id: string, additive: boolean) => void;
+  onAdd: (type: LayerType) => void;
+  onDelete: (layer: PosterLayer) => void;
+  onMove: (layer: PosterLayer, step: number) => void;
+  onToggleVisibility: (layer: PosterLayer) => void;
+  onToggleStyle: (layer: PosterLayer, style: 'bold' | 'italic') => void;
+  onScale: (layer: PosterLayer, value: string) => void;
+  onRotate: (layer: PosterLayer, value: string) => void;
+  onPatch: <T extends PosterLayer>(layer: T, patch: Partial<T>, label: string) => void;
+  onImageUpload: (e: React.ChangeEvent<HTMLInputElement>, layer: ImageLayer) => void;
+  // Families the font picker offers, already narrowed by a locked brand kit
+  fonts: FontOption[];
+  onFontUpload: (e: React.ChangeEvent<HTMLInputElement>, layer: TextualLayer) => void;
+}
+
+const TEXT_TRANSFORMS: { value: TextTransform; label: string; title: string }[] = [
+  { value: 'none', label: '—', title: 'As typed' },
+  { value: 'uppercase', label: 'AA', title: 'Uppercase' },
+  { value: 'lowercase', label: 'aa', title: 'Lowercase' },
+  { value: 'capitalize', label: 'Ab', title: 'Capitalize' }
+];
+
+const TEXT_DIRECTIONS: { value: TextDirection; label: string; title: string }[] = [
+  { value: 'auto', label: 'Auto', title: 'Follow the first letter of each paragraph' },
+  { value: 'ltr', label: 'LTR', title: 'Left to right' },
+  { value: 'rtl', label: 'RTL', title: 'Right to left' }
+];
+
+const SECONDARY_ARRANGEMENTS: { value: BilingualText['arrangement']; label: string }[] = [
+  { value: 'stacked', label: 'Stacked' },
+  { value: 'split', label: 'Side by Side' }
+];
+
+const TEXT_ALIGNS: { value: CanvasTextAlign; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' }
+];
+
+const MAX_LINE_OPTIONS = [1, 2, 3, 4, 5, 6, 8];
+
+const DEFAULT_LINE_HEIGHT = 1.4; // multiple of the font size, matching the renderer
+
+interface SliderFieldProps {
+  label: string;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const SliderField: React.FC<SliderFieldProps> = ({ label, display, min, max, step, value, onChange }) => (
+  <div className="space-y-1.5">
+    <div className="flex justify-between text-[8px] font-bold text-slate-600 uppercase px-1">
+       <span>{label}</span>
+       <span className="text-slate-400">{display}</span>
+    </div>
+    <input
+      type="range" min={min} max={max} step={step}
+      value={value}
+      onClick={e => e.stopPropagation()}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full accent-white h-1.5 bg-white/5 rounded-full appearance-none cursor-pointer"
+    />
+  </div>
+);
+
+interface EffectSectionProps {
+  label: string;
+  enabled: boolean;
+  onToggle: () => void;
+  children: React.ReactNode;
+}
+
+const EffectSection: React.FC<EffectSectionProps> = ({ label, enabled, onToggle, children }) => (
+  <div className="bg-white/[0.03] border border-white/5 rounded-2xl p-3 space-y-3">
+    <div className="flex items-center justify-between">
+      <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">{label}</span>
+      <button
+        onClick={onToggle}
+        className={`text-[8px] px-3 py-1 rounded-full font-black transition-all ${enabled ? 'bg-white text-black' : 'bg-white/5 text-slate-600'}`}
+      >
+        {enabled ? 'ON' : 'OFF'}
+      </button>
+    </div>
+    {enabled && children}
+  </div>
+);
+
+const LayerPanel: React.FC<LayerPanelProps> = ({
+  layers, selectedIds, fieldLabels, swatches, lockColors, onSelect, onAdd, onDelete, onMove,
+  onToggleVisibility, onToggleStyle, onScale, onRotate, onPatch, onImageUpload, fonts, onFontUpload
+}) => {
+  const renderTypography = (layer: TextualLayer) => {
+    const family = fontFamily(layer);
+    const option = fonts.find(f => f.family === family);
+    const weights = option?.weights ?? [400, 700];
+    const weight = fontWeight(layer);
+    const lineHeight = layer.type === 'text' ? (layer.lineHeight ?? layer.fontSize * DEFAULT_LINE_HEIGHT) / layer.fontSize : 0;
+    const selectClass = "w-full bg-white/[0.03] border border-white/5 rounded-xl p-2 text-[10px] text-white outline-none focus:border-white/20";
+    return (
+      <div className="space-y-3" onClick={e => e.stopPropagation()}>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="flex flex-col gap-1.5">
+            <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Font</span>
+            <select
+              className={selectClass}
+              value={family}
+              onChange={e => {
+                const next = fonts.find(f => f.family === e.target.value);
+                // Keep the weight when the new family has it, otherwise fall back to the bold toggle
+                const keep = layer.fontWeight !== undefined && next?.weights.includes(layer.fontWeight);
+                onPatch(layer, { fontFamily: e.target.value === DEFAULT_FONT_FAMILY ? undefined : e.target.value, ...(keep ? {} : { fontWeight: undefined }) }, 'Font');
+              }}
+            >
+              {!option && <option value={family}>{family}</option>}
+              {fonts.map(f => <option key={f.family} value={f.family} style={{ fontFamily: f.family }}>{f.family}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Weight</span>
+            <select
+              className={selectClass}
+              value={weight}
+              onChange={e => onPatch(layer, { fontWeight: Number(e.target.value) }, 'Weight')}
+            >
+              {!weights.includes(weight) && <option value={weight}>{FONT_WEIGHT_LABELS[weight] ?? weight}</option>}
+              {weights.map(w => <option key={w} value={w}>{FONT_WEIGHT_LABELS[w] ?? w}</option>)}
+            </select>
+          </div>
+        </div>
+        <label className="flex items-center justify-center p-2 border border-dashed border-white/5 bg-white/[0.02] rounded-xl cursor-pointer hover:bg-white/10 hover:border-white/20 transition-all">
+          <span className="text-[8px] font-black uppercase text-slate-500">Upload Font</span>
+          <input type="file" className="hidden" accept={FONT_FILE_TYPES.join(',')} onChange={(e) => onFontUpload(e, layer)} />
+        </label>
+        <SliderField
+          label="Letter Spacing"
+          display={`${(layer.letterSpacing ?? 0).toFixed(2)}em`}
+          min={-0.1} max={0.5} step={0.01}
+          value={layer.letterSpacing ?? 0}
+          onChange={letterSpacing => onPatch(layer, { letterSpacing }, 'Track')}
+        />
+        {layer.type === 'text' && (
+          <SliderField
+            label="Line Height"
+            display={`${lineHeight.toFixed(2)}×`}
+            min={0.8} max={2.5} step={0.05}
+            value={lineHeight}
+            onChange={ratio => onPatch(layer, { lineHeight: ratio * layer.fontSize }, 'Line Height')}
+          />
+        )}
+        <div className="flex gap-2">
+          {TEXT_TRANSFORMS.map(t => (
+            <button
+              key={t.value}
+              title={t.title}
+              onClick={() => onPatch(layer, { textTransform: t.value }, 'Case')}
+              className={`flex-1 py-1.5 rounded-lg text-[9px] font-black border ${(layer.textTransform ?? 'none') === t.value ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white'}`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {TEXT_DIRECTIONS.map(d => (
+            <button
+              key={d.value}
+              title={d.title}
+              onClick={() => onPatch(layer, { direction: d.value === 'auto' ? undefined : d.value }, 'Direction')}
+              className={`flex-1 py-1.5 rounded-lg text-[8px] font-black uppercase border ${(layer.direction ?? 'auto') === d.value ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white'}`}
+            >
+              {d.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderSecondary = (layer: TextLayer) => {
+    const { secondary } = layer;
+    return (
+      <div onClick={e => e.stopPropagation()}>
+        <EffectSection
+          label="Second Language"
+          enabled={!!secondary}
+          onToggle={() => onPatch(layer, { secondary: secondary ? undefined : { text: '', arrangement: 'stacked', scale: 0.7 } }, 'Second Language')}
+        >
+          {secondary && (
+            <>
+              <textarea
+                dir="auto"
+                placeholder="Translation"
+                className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs min-h-[48px] text-white outline-none focus:border-white/20 resize-none"
+                value={secondary.text}
+                onChange={e => onPatch(layer, { secondary: { ...secondary, text: e.target.value } }, 'Second Language')}
+              />
+              <div className="flex gap-2">
+                {SECONDARY_ARRANGEMENTS.map(a => (
+                  <button
+                    key={a.value}
+                    onClick={() => onPatch(layer, { secondary: { ...secondary, arrangement: a.value } }, 'Second Language')}
+                    className={`flex-1 py-1.5 rounded-lg text-[8px] font-black uppercase border ${secondary.arrangement === a.value ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white'}`}
+                  >
+                    {a.label}
+                  </button>
+                ))}
+              </div>
+              <SliderField
+                label="Relative Size"
+                display={`${Math.round(secondary.scale * 100)}%`}
+                min={0.3} max={1.5} step={0.05}
+                value={secondary.scale}
+                onChange={scale => onPatch(layer, { secondary: { ...secondary, scale } }, 'Second Language')}
+              />
+            </>
+          )}
+        </EffectSection>
+      </div>
+    );
+  };
+
+  const renderTextBox = (layer: TextLayer) => (
+    <div className="bg-white/[0.03] border border-white/5 rounded-2xl p-3 space-y-3" onClick={e => e.stopPropagation()}>
+      <div className="flex items-center justify-between">
+        <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Text Box</span>
+        <button
+          onClick={() => onPatch(layer, { maxWidth: layer.maxWidth ? undefined : 0.8 }, 'Wrap')}
+          className={`text-[8px] px-3 py-1 rounded-full font-black transition-all ${layer.maxWidth ? 'bg-white text-black' : 'bg-white/5 text-slate-600'}`}
+        >
+          {layer.maxWidth ? 'WRAP' : 'NO WRAP'}
+        </button>
+      </div>
+      {layer.maxWidth !== undefined && (
+        <SliderField
+          label="Box Width"
+          display={`${Math.round(layer.maxWidth * 100)}%`}
+          min={0.1} max={1} step={0.01}
+          value={layer.maxWidth}
+          onChange={maxWidth => onPatch(layer, { maxWidth }, 'Resize Box')}
+        />
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <div className="flex flex-col gap-1.5">
+          <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Max Lines</span>
+          <select
+            className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-2 text-[10px] text-white outline-none focus:border-white/20"
+            value={layer.maxLines ?? 0}
+            onChange={e => onPatch(layer, { maxLines: Number(e.target.value) || undefined }, 'Line Limit')}
+          >
+            <option value={0}>No limit</option>
+            {MAX_LINE_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Auto-Fit</span>
+          <button
+            onClick={() => onPatch(layer, { autoFit: !layer.autoFit }, 'Auto-Fit')}
+            className={`w-full p-2 rounded-xl text-[9px] font-black uppercase border ${layer.autoFit ? 'bg-white text-black border-white' : 'border-white/10 text-slate-500 hover:text-white'}`}
+          >
+            {layer.autoFit ? 'Shrink to Fit' : 'Fixed Size'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderEffects = (layer: TextLayer) => {
+    const { gradient, stroke, shadow, glow, plate } = layer;
+    const ems = (value: number) => `${value.toFixed(2)}em`;
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+    return (
+      <div className="space-y-3" onClick={e => e.stopPropagation()}>
+        <div className="flex gap-2">
+          {TEXT_ALIGNS.map(a => (
+            <button
+              key={a.value}
+              onClick={() => onPatch(layer, { align: a.value }, 'Align')}
+              className={`flex-1 py-1.5 rounded-lg text-[8px] font-black uppercase border ${layer.align === a.value ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white'}`}
+            >
+              {a.label}
+            </button>
+          ))}
+        </div>
+        <EffectSection
+          label="Gradient Fill"
+          enabled={!!gradient}
+          onToggle={() => onPatch(layer, { gradient: gradient ? undefined : { from: layer.color, to: '#3b82f6', angle: 180 } }, 'Gradient')}
+        >
+          {gradient && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <ColorField {...palette} label="From" value={gradient.from} onChange={from => onPatch(layer, { gradient: { ...gradient, from } }, 'Gradient')} />
+                <ColorField {...palette} label="To" value={gradient.to} onChange={to => onPatch(layer, { gradient: { ...gradient, to } }, 'Gradient')} />
+              </div>
+              <SliderField label="Angle" display={`${gradient.angle}°`} min={0} max={360} step={15} value={gradient.angle} onChange={angle => onPatch(layer, { gradient: { ...gradient, angle } }, 'Gradient')} />
+            </>
+          )}
+        </EffectSection>
+        <EffectSection label="Outline" enabled={!!stroke} onToggle={() => onPatch(layer, { stroke: stroke ? undefined : TEXT_EFFECT_DEFAULTS.stroke }, 'Outline')}>
+          {stroke && (
+            <>
+              <ColorField {...palette} label="Color" value={stroke.color} onChange={color => onPatch(layer, { stroke: { ...stroke, color } }, 'Outline')} />
+              <SliderField label="Width" display={ems(stroke.width)} min={0.01} max={0.2} step={0.01} value={stroke.width} onChange={width => onPatch(layer, { stroke: { ...stroke, width } }, 'Outline')} />
+            </>
+          )}
+        </EffectSection>
+        <EffectSection label="Drop Shadow" enabled={!!shadow} onToggle={() => onPatch(layer, { shadow: shadow ? undefined : TEXT_EFFECT_DEFAULTS.shadow }, 'Shadow')}>
+          {shadow && (
+            <>
+              <ColorField {...palette} label="Color" value={shadow.color} onChange={color => onPatch(layer, { shadow: { ...shadow, color } }, 'Shadow')} />
+              <SliderField label="Opacity" display={percent(shadow.opacity)} min={0} max={1} step={0.05} value={shadow.opacity} onChange={opacity => onPatch(layer, { shadow: { ...shadow, opacity } }, 'Shadow')} />
+              <SliderField label="Blur" display={ems(shadow.blur)} min={0} max={1} step={0.01} value={shadow.blur} onChange={blur => onPatch(layer, { shadow: { ...shadow, blur } }, 'Shadow')} />
+              <SliderField label="Offset X" display={ems(shadow.x)} min={-0.5} max={0.5} step={0.01} value={shadow.x} onChange={x => onPatch(layer, { shadow: { ...shadow, x } }, 'Shadow')} />
+              <SliderField label="Offset Y" display={ems(shadow.y)} min={-0.5} max={0.5} step={0.01} value={shadow.y} onChange={y => onPatch(layer, { shadow: { ...shadow, y } }, 'Shadow')} />
+            </>
+          )}
+        </EffectSection>
+        <EffectSection label="Glow" enabled={!!glow} onToggle={() => onPatch(layer, { glow: glow ? undefined : TEXT_EFFECT_DEFAULTS.glow }, 'Glow')}>
+          {glow && (
+            <>
+              <ColorField {...palette} label="Color" value={glow.color} onChange={color => onPatch(layer, { glow: { ...glow, color } }, 'Glow')} />
+              <SliderField label="Opacity" display={percent(glow.opacity)} min={0} max={1} step={0.05} value={glow.opacity} onChange={opacity => onPatch(layer, { glow: { ...glow, opacity } }, 'Glow')} />
+              <SliderField label="Size" display={ems(glow.blur)} min={0.05} max={1.5} step={0.05} value={glow.blur} onChange={blur => onPatch(layer, { glow: { ...glow, blur } }, 'Glow')} />
+            </>
+          )}
+        </EffectSection>
+        <EffectSection label="Background Plate" enabled={!!plate} onToggle={() => onPatch(layer, { plate: plate ? undefined : TEXT_EFFECT_DEFAULTS.plate }, 'Plate')}>
+          {plate && (
+            <>
+              <ColorField {...palette} label="Color" value={plate.color} onChange={color => onPatch(layer, { plate: { ...plate, color } }, 'Plate')} />
+              <SliderField label="Opacity" display={percent(plate.opacity)} min={0} max={1} step={0.05} value={plate.opacity} onChange={opacity => onPatch(layer, { plate: { ...plate, opacity } }, 'Plate')} />
+              <SliderField label="Padding" display={ems(plate.padding)} min={0} max={1} step={0.05} value={plate.padding} onChange={padding => onPatch(layer, { plate: { ...plate, padding } }, 'Plate')} />
+              <SliderField label="Corner Radius" display={ems(plate.radius)} min={0} max={1} step={0.05} value={plate.radius} onChange={radius => onPatch(layer, { plate: { ...plate, radius } }, 'Plate')} />
+            </>
+          )}
+        </EffectSection>
+      </div>
+    );
+  };
+
+  const renderContent = (layer: PosterLayer) => {
+    switch (layer.type) {
+      case 'text':
+      case 'button':
+        return layer.field ? (
+          <p className="text-[8px] font-bold text-slate-600 uppercase ml-1">Linked to {fieldLabels[layer.field]}</p>
+        ) : (
+          <textarea
+            dir="auto"
+            className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs min-h-[48px] text-white outline-none focus:border-white/20 resize-none"
+            value={layer.text}
+            onClick={e => e.stopPropagation()}
+            onChange={e => onPatch(layer, { text: e.target.value }, 'Edit')}
+          />
+        );
+      case 'badge':
+        return layer.items.map((item, i) => item.field ? null : (
+          <input
+            key={i}
+            type="text"
+            dir="auto"
+            className="w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20"
+            value={item.text}
+            onClick={e => e.stopPropagation()}
+            onChange={e => onPatch(layer, { items: layer.items.map((it, j) => j === i ? { ...it, text: e.target.value } : it) }, 'Edit')}
+          />
+        ));
+      case 'image':
+        return layer.assetField ? null : (
+          <label onClick={e => e.stopPropagation()} className="flex items-center justify-center p-3 border-2 border-dashed border-white/5 bg-white/[0.02] rounded-xl cursor-pointer hover:bg-white/10 hover:border-white/20 transition-all">
+            <span className="text-[8px] font-black uppercase text-slate-500">{layer.src ? 'Replace Image' : 'Upload Image'}</span>
+            <input type="file" className="hidden" accept="image/*" onChange={(e) => onImageUpload(e, layer)} />
+          </label>
+        );
+      case 'shape':
+        return (
+          <div className="flex gap-2">
+            {(['rect', 'ellipse'] as const).map(shape => (
+              <button
+                key={shape}
+                onClick={(e) => { e.stopPropagation(); onPatch(layer, { shape }, 'Reshape'); }}
+                className={`flex-1 py-1.5 rounded-lg text-[8px] font-black uppercase border ${layer.shape === shape ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white'}`}
+              >
+                {shape === 'rect' ? 'Rectangle' : 'Ellipse'}
+              </button>
+            ))}
+          </div>
+        );
+    }
+  };
+
+  const palette = { swatches, locked: lockColors };
+
+  const renderColors = (layer: PosterLayer) => {
+    switch (layer.type) {
+      case 'text':
+        return <ColorField {...palette} label="Tint" value={layer.color} onChange={color => onPatch(layer, { color }, 'Recolor')} />;
+      case 'button':
+        return (
+          <>
+            <ColorField {...palette} label="Tint" value={layer.color} onChange={color => onPatch(layer, { color }, 'Recolor')} />
+            <ColorField {...palette} label="Fill" value={layer.fill} onChange={fill => onPatch(layer, { fill }, 'Fill')} />
+          </>
+        );
+      case 'badge':
+        return (
+          <>
+            <ColorField {...palette} label="Tint" value={layer.color} onChange={color => onPatch(layer, { color }, 'Recolor')} />
+            {layer.items.map((item, i) => (
+              <ColorField
+                {...palette}
+                key={i}
+                label={`Badge ${i + 1} Fill`}
+                value={item.fill}
+                onChange={fill => onPatch(layer, { items: layer.items.map((it, j) => j === i ? { ...it, fill } : it) }, 'Fill')}
+              />
+            ))}
+          </>
+        );
+      case 'shape':
+        return <ColorField {...palette} label="Fill" value={layer.fill} onChange={fill => onPatch(layer, { fill }, 'Fill')} />;
+      case 'image':
+        return null;
+    }
+  };
+
+  return (
+    <section className="space-y-4 pb-12">
+      <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Studio Layer Mastery</h3>
+      <div className="grid grid-cols-5 gap-2">
+        {(Object.keys(LAYER_TYPE_LABELS) as LayerType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => onAdd(type)}
+            className="py-2 rounded-xl text-[8px] font-black uppercase bg-white/5 border border-white/5 text-slate-500 hover:text-white hover:border-white/20 transition-all"
+          >
+            + {LAYER_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+      <div className="space-y-3">
+        {[...layers].reverse().map((layer, i) => {
+          const isSelected = selectedIds.includes(layer.id);
+          const isTop = i === 0;
+          const isBottom = i === layers.length - 1;
+          return (
+            <div
+              key={layer.id}
+              onClick={(e) => onSelect(layer.id, e.shiftKey || e.metaKey || e.ctrlKey)}
+              className={`p-5 rounded-2xl border transition-all cursor-pointer ${isSelected ? 'bg-blue-600/10 border-blue-500/50 scale-[1.02]' : 'bg-white/[0.02] border-white/5 hover:border-white/20'}`}
+            >
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2 min-w-0">
+                   <div className={`w-1.5 h-1.5 rounded-full shrink-0 ${isSelected ? 'bg-blue-500 animate-pulse' : 'bg-slate-700'}`}></div>
+                   <span className="text-[10px] font-black uppercase text-slate-300 tracking-tight truncate">{layer.name}</span>
+                   <span className="text-[8px] font-bold uppercase text-slate-600">{LAYER_TYPE_LABELS[layer.type]}</span>
+                   {layer.groupId && <span className="text-[8px] font-black uppercase text-blue-400/70">Grouped</span>}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {isTextual(layer) && (
+                    <>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onToggleStyle(layer, 'bold'); }}
+                        className={`w-6 h-6 flex items-center justify-center rounded-md text-[10px] font-bold border ${ isBold(layer) ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white' }`}
+                      >
+                        B
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onToggleStyle(layer, 'italic'); }}
+                        className={`w-6 h-6 flex items-center justify-center rounded-md text-[10px] italic font-serif border ${ layer.pos.italic ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white' }`}
+                      >
+                        I
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onToggleVisibility(layer); }}
+                    className={`text-[8px] px-3 py-1 rounded-full font-black transition-all ${ layer.pos.visible ? 'bg-white text-black' : 'bg-white/5 text-slate-600' }`}
+                  >
+                    { layer.pos.visible ? 'ACTIVE' : 'MUTED' }
+                  </button>
+                </div>
+              </div>
+              { layer.pos.visible && (
+                <div className="space-y-5">
+                  {renderContent(layer)}
+                  {isTextual(layer) && renderTypography(layer)}
+                  {layer.type === 'text' && renderTextBox(layer)}
+                  {layer.type === 'text' && renderSecondary(layer)}
+                  {layer.type === 'text' && renderEffects(layer)}
+                  <div className="space-y-1.5">
+                    <div className="flex justify-between text-[8px] font-bold text-slate-600 uppercase px-1">
+                       <span>Scale Modifier</span>
+                       <span className="text-slate-400">{layer.pos.scale.toFixed(1)}x</span>
+                    </div>
+                    <input
+                      type="range" min="0.2" max="2.5" step="0.1"
+                      value={layer.pos.scale}
+                      onClick={e => e.stopPropagation()}
+                      onChange={(e) => onScale(layer, e.target.value)}
+                      className="w-full accent-white h-1.5 bg-white/5 rounded-full appearance-none cursor-pointer"
+                    />
+                  </div>
+                  <div className="space-y-1.5">
+                    <div className="flex justify-between text-[8px] font-bold text-slate-600 uppercase px-1">
+                       <span>Rotation</span>
+                       <span className="text-slate-400">{layer.pos.rotation ?? 0}°</span>
+                    </div>
+                    <input
+                      type="range" min="-180" max="180" step="1"
+                      value={layer.pos.rotation ?? 0}
+                      onClick={e => e.stopPropagation()}
+                      onChange={(e) => onRotate(layer, e.target.value)}
+                      className="w-full accent-white h-1.5 bg-white/5 rounded-full appearance-none cursor-pointer"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    {renderColors(layer)}
+                  </div>
+                </div>
+              )}
+              <div className="flex gap-2 mt-4">
+                <button
+                  onClick={(e) => { e.stopPropagation(); onMove(layer, 1); }}
+                  disabled={isTop}
+                  className="flex-1 text-[8px] py-1 rounded-md font-black uppercase border border-white/10 text-slate-500 hover:text-white disabled:opacity-30"
+                >
+                  Forward
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onMove(layer, -1); }}
+                  disabled={isBottom}
+                  className="flex-1 text-[8px] py-1 rounded-md font-black uppercase border border-white/10 text-slate-500 hover:text-white disabled:opacity-30"
+                >
+                  Backward
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDelete(layer); }}
+                  className="flex-1 text-[8px] py-1 rounded-md font-black uppercase border border-red-500/20 text-red-400/70 hover:text-red-300"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default LayerPanel;
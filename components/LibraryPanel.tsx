@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { LibraryDesign } from '../types';
+
+interface LibraryPanelProps {
+  designs: LibraryDesign[];
+  currentId: string | null;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const LibraryPanel: React.FC<LibraryPanelProps> = ({ designs, currentId, onOpen, onNew, onRename, onDuplicate, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <span className="w-1 h-1 bg-blue-500 rounded-full"></span>
+          Design Library
+        </h3>
+        <button
+          onClick={onNew}
+          className="text-[8px] px-3 py-1 rounded-full font-black uppercase bg-white text-black hover:bg-slate-200 transition-all"
+        >
+          + New Design
+        </button>
+      </div>
+
+      {designs.length === 0 && (
+        <p className="text-[10px] text-slate-600 text-center py-8">Designs are saved here automatically as you edit.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        {designs.map(design => (
+          <div
+            key={design.id}
+            className={`rounded-2xl border overflow-hidden transition-all ${design.id === currentId ? 'border-blue-500/50 bg-blue-600/10' : 'border-white/5 bg-white/[0.02] hover:border-white/20'}`}
+          >
+            <button onClick={() => onOpen(design.id)} className="block w-full aspect-square bg-black/40">
+              {design.thumbnail
+                ? <img src={design.thumbnail} alt={design.name} className="w-full h-full object-contain" />
+                : <span className="text-[8px] font-black uppercase text-slate-700">No Preview</span>}
+            </button>
+            <div className="p-2 space-y-2">
+              {editingId === design.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={e => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white outline-none"
+                />
+              ) : (
+                <p
+                  onDoubleClick={() => { setEditingId(design.id); setDraftName(design.name); }}
+                  className="text-[10px] font-black text-slate-300 truncate"
+                  title="Double-click to rename"
+                >
+                  {design.name}
+                </p>
+              )}
+              <p className="text-[8px] text-slate-600 uppercase font-bold">{new Date(design.updatedAt).toLocaleString()}</p>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => { setEditingId(design.id); setDraftName(design.name); }}
+                  className="flex-1 text-[8px] py-1 rounded-md font-black uppercase border border-white/10 text-slate-500 hover:text-white"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => onDuplicate(design.id)}
+                  className="flex-1 text-[8px] py-1 rounded-md font-black uppercase border border-white/10 text-slate-500 hover:text-white"
+                >
+                  Copy
+                </button>
+                <button
+                  onClick={() => { if (confirm(`Delete "${design.name}"?`)) onDelete(design.id); }}
+                  className="flex-1 text-[8px] py-1 rounded-md font-black uppercase border border-red-500/20 text-red-400/70 hover:text-red-300"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default LibraryPanel;
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { LayoutGuidance, PromptComposition, StylePreset, SubjectPlacement } from '../types';
+import { findPreset, isPresetModified, LAYOUT_GUIDANCE_LABELS, SUBJECT_PLACEMENT_LABELS } from '../services/prompts';
+import type { GenerateImageRequest } from '../services/imageProvider';
+
+interface PromptStylePanelProps {
+  request: GenerateImageRequest; // what generating now would send, for the preview
+  style: StylePreset;
+  brandPresets: StylePreset[];
+  builtInPresets: StylePreset[];
+  brandName: string | null; // the active brand kit, which presets can be saved to
+  onChange: (style: StylePreset, label: string) => void;
+  onSaveToBrand: (name: string) => void;
+  onDeleteBrandPreset: (id: string) => void;
+}
+
+const PromptStylePanel: React.FC<PromptStylePanelProps> = ({
+  request, style, brandPresets, builtInPresets, brandName, onChange, onSaveToBrand, onDeleteBrandPreset
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [showPrompt, setShowPrompt] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const presets = [...brandPresets, ...builtInPresets];
+  const modified = isPresetModified(style, presets);
+  const saved = findPreset(presets, style.id);
+  const isBrandPreset = brandPresets.some(p => p.id === style.id);
+  const fieldClass = "w-full bg-black/40 border border-white/5 rounded-xl p-2 text-[10px] text-slate-300 outline-none focus:border-blue-500/50";
+
+  const update = (patch: Partial<StylePreset>, label: string) => onChange({ ...style, ...patch }, label);
+  const updateComposition = (patch: Partial<PromptComposition>) =>
+    update({ composition: { ...style.composition, ...patch } }, 'Prompt Composition');
+
+  const saveToBrand = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    onSaveToBrand(name);
+    setPresetName('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end gap-2">
+        <div className="flex-1 flex flex-col gap-1.5">
+          <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">
+            Style{modified && saved && <span className="text-amber-500"> · Edited</span>}
+          </span>
+          <select
+            className={fieldClass}
+            value={saved ? style.id : ''}
+            onChange={e => {
+              const preset = findPreset(presets, e.target.value);
+              if (preset) onChange(preset, 'Prompt Style');
+            }}
+          >
+            {!saved && <option value="">{style.name} (removed)</option>}
+            {brandPresets.length > 0 && (
+              <optgroup label={brandName ?? 'Brand'}>
+                {brandPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </optgroup>
+            )}
+            <optgroup label="Built-in">
+              {builtInPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+          </select>
+        </div>
+        {modified && saved && (
+          <button
+            onClick={() => onChange(saved, 'Revert Prompt Style')}
+            title={`Discard edits and go back to ${saved.name}`}
+            className="px-3 py-2 rounded-xl text-[8px] font-black uppercase border border-white/10 text-slate-500 hover:text-white"
+          >
+            Revert
+          </button>
+        )}
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className={`px-3 py-2 rounded-xl text-[8px] font-black uppercase border ${expanded ? 'bg-white text-black border-white' : 'border-white/10 text-slate-500 hover:text-white'}`}
+        >
+          Customize
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="space-y-3">
+          <div className="flex flex-col gap-1.5">
+            <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Template · {'{scene}'} is your description</span>
+            <textarea
+              className={`${fieldClass} min-h-[80px] resize-none`}
+              value={style.template}
+              onChange={e => update({ template: e.target.value }, 'Prompt Template')}
+            />
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Avoid</span>
+            <input
+              type="text"
+              className={fieldClass}
+              placeholder="people, logos, watermarks"
+              value={style.negativePrompt}
+              onChange={e => update({ negativePrompt: e.target.value }, 'Negative Prompt')}
+            />
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Keep Layers Clear</span>
+            <div className="flex gap-2">
+              {(Object.keys(LAYOUT_GUIDANCE_LABELS) as LayoutGuidance[]).map(guidance => (
+                <button
+                  key={guidance}
+                  onClick={() => updateComposition({ layoutGuidance: guidance })}
+                  className={`flex-1 py-1.5 rounded-lg text-[9px] font-black uppercase border ${style.composition.layoutGuidance === guidance ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white'}`}
+                >
+                  {LAYOUT_GUIDANCE_LABELS[guidance]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className={`grid grid-cols-2 gap-3 ${style.composition.layoutGuidance === 'off' ? '' : 'opacity-40 pointer-events-none'}`}>
+            {(['clearTop', 'clearBottom'] as const).map(key => (
+              <div key={key} className="space-y-1.5">
+                <div className="flex justify-between text-[8px] font-bold text-slate-600 uppercase px-1">
+                  <span>{key === 'clearTop' ? 'Clear Top' : 'Clear Bottom'}</span>
+                  <span className="text-slate-400">{style.composition[key] ? `${Math.round(style.composition[key] * 100)}%` : 'Off'}</span>
+                </div>
+                <input
+                  type="range" min={0} max={0.6} step={0.05}
+                  value={style.composition[key]}
+                  onChange={e => updateComposition({ [key]: parseFloat(e.target.value) })}
+                  className="w-full accent-white h-1.5 bg-white/5 rounded-full appearance-none cursor-pointer"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-col gap-1.5">
+            <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Main Subject</span>
+            <div className="flex gap-2">
+              {(Object.keys(SUBJECT_PLACEMENT_LABELS) as SubjectPlacement[]).map(subject => (
+                <button
+                  key={subject}
+                  onClick={() => updateComposition({ subject })}
+                  className={`flex-1 py-1.5 rounded-lg text-[9px] font-black uppercase border ${style.composition.subject === subject ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white'}`}
+                >
+                  {SUBJECT_PLACEMENT_LABELS[subject]}
+                </button>
+              ))}
+            </div>
+          </div>
+          {brandName && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                className={fieldClass}
+                placeholder={`Save as a ${brandName} preset…`}
+                value={presetName}
+                onChange={e => setPresetName(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') saveToBrand(); }}
+              />
+              <button
+                onClick={saveToBrand}
+                disabled={!presetName.trim()}
+                className="px-3 rounded-xl bg-white/5 text-white text-[9px] font-black uppercase hover:bg-white/10 disabled:opacity-50"
+              >
+                Save
+              </button>
+              {isBrandPreset && (
+                <button
+                  onClick={() => { if (confirm(`Delete the "${saved!.name}" preset from ${brandName}?`)) onDeleteBrandPreset(style.id); }}
+                  className="px-3 rounded-xl bg-white/5 text-slate-500 text-[9px] font-black uppercase hover:text-red-400"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => setShowPrompt(!showPrompt)}
+        className="text-[8px] font-black uppercase text-slate-500 hover:text-white ml-1"
+      >
+        {showPrompt ? '− Final Prompt' : '+ Final Prompt'}
+      </button>
+      {showPrompt && (
+        <div className="space-y-2">
+          <pre className="whitespace-pre-wrap break-words bg-black/40 border border-white/5 rounded-xl p-3 text-[9px] text-slate-400 font-mono">
+            {request.prompt}
+          </pre>
+          {request.mask && (
+            <img src={request.mask} alt="Layout mask sent with the prompt" className="w-20 rounded-lg border border-white/10" />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptStylePanel;
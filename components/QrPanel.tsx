@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { QrCodeSettings, QrErrorCorrection, UtmParams } from '../types';
+import { DEFAULT_QR_CODE, QR_ISSUE_LABELS, QR_LEVEL_LABELS, QrScanCheck, trackedUrl, UTM_KEYS } from '../services/qr';
+import ColorField from './ColorField';
+
+interface QrPanelProps {
+  settings: QrCodeSettings | null;
+  check: QrScanCheck | null;
+  swatches: string[];
+  lockColors: boolean;
+  onChange: (settings: QrCodeSettings | null, label: string) => void;
+}
+
+const UTM_LABELS: Record<keyof UtmParams, string> = {
+  source: 'Source', medium: 'Medium', campaign: 'Campaign', term: 'Term', content: 'Content'
+};
+
+const UTM_PLACEHOLDERS: Record<keyof UtmParams, string> = {
+  source: 'poster', medium: 'print', campaign: 'spring-launch', term: '', content: 'story-9x16'
+};
+
+const QrPanel: React.FC<QrPanelProps> = ({ settings, check, swatches, lockColors, onChange }) => {
+  const [showUtm, setShowUtm] = useState(false);
+  const inputClass = "w-full bg-white/[0.03] border border-white/5 rounded-xl p-3 text-xs text-white outline-none focus:border-white/20";
+  const palette = { swatches, locked: lockColors };
+
+  if (!settings) {
+    return (
+      <button
+        onClick={() => onChange(DEFAULT_QR_CODE, 'Generate QR')}
+        className="w-full py-3 bg-white/5 text-white text-[10px] font-black uppercase tracking-widest rounded-2xl hover:bg-white/10 transition-all"
+      >
+        Generate QR From Link
+      </button>
+    );
+  }
+
+  const update = (patch: Partial<QrCodeSettings>, label: string) => onChange({ ...settings, ...patch }, label);
+  let link: string | null = null;
+  let linkError: string | null = null;
+  try {
+    link = trackedUrl(settings.url, settings.utm);
+  } catch (err) {
+    linkError = err instanceof Error ? err.message : "That link is not valid.";
+  }
+
+  return (
+    <div className="bg-white/[0.03] border border-white/5 rounded-2xl p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Generated QR</span>
+        <button
+          onClick={() => onChange(null, 'Remove Generated QR')}
+          className="text-[8px] px-3 py-1 rounded-full font-black bg-white/5 text-slate-500 hover:text-red-400"
+        >
+          REMOVE
+        </button>
+      </div>
+      <input
+        type="url"
+        className={inputClass}
+        placeholder="https://example.com/register"
+        value={settings.url}
+        onChange={e => update({ url: e.target.value }, 'QR Link')}
+      />
+      <button
+        onClick={() => setShowUtm(!showUtm)}
+        className="text-[8px] font-black uppercase text-slate-500 hover:text-white ml-1"
+      >
+        {showUtm ? '− UTM Parameters' : '+ UTM Parameters'}
+      </button>
+      {showUtm && (
+        <div className="grid grid-cols-2 gap-2">
+          {UTM_KEYS.map(key => (
+            <div key={key} className="space-y-1">
+              <label className="text-[8px] font-bold text-slate-600 uppercase ml-1">{UTM_LABELS[key]}</label>
+              <input
+                type="text"
+                className={inputClass}
+                placeholder={UTM_PLACEHOLDERS[key]}
+                value={settings.utm[key]}
+                onChange={e => update({ utm: { ...settings.utm, [key]: e.target.value } }, 'QR UTM')}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      {settings.url.trim() && (
+        <p className={`text-[9px] break-all ml-1 ${linkError ? 'text-red-400' : 'text-slate-500'}`}>{linkError ?? link}</p>
+      )}
+      <div className="flex flex-col gap-1.5">
+        <span className="text-[8px] font-bold text-slate-600 uppercase ml-1">Error Correction</span>
+        <div className="flex gap-2">
+          {(Object.keys(QR_LEVEL_LABELS) as QrErrorCorrection[]).map(level => (
+            <button
+              key={level}
+              title={QR_LEVEL_LABELS[level]}
+              onClick={() => update({ errorCorrection: level }, 'QR Error Correction')}
+              className={`flex-1 py-1.5 rounded-lg text-[9px] font-black border ${settings.errorCorrection === level ? 'bg-white text-black border-white' : 'border-white/20 text-slate-500 hover:text-white'}`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <ColorField {...palette} label="Modules" value={settings.foreground} onChange={foreground => update({ foreground }, 'QR Color')} />
+        <ColorField {...palette} label="Background" value={settings.background} onChange={background => update({ background }, 'QR Background')} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => update({ rounded: !settings.rounded }, 'QR Style')}
+          className={`p-2 rounded-xl text-[9px] font-black uppercase border ${settings.rounded ? 'bg-white text-black border-white' : 'border-white/10 text-slate-500 hover:text-white'}`}
+        >
+          {settings.rounded ? 'Rounded' : 'Square'}
+        </button>
+        <button
+          // A logo hides modules, so turning it on also raises error correction to the level that can restore them
+          onClick={() => update(settings.logo ? { logo: false } : { logo: true, errorCorrection: 'H' }, 'QR Logo')}
+          className={`p-2 rounded-xl text-[9px] font-black uppercase border ${settings.logo ? 'bg-white text-black border-white' : 'border-white/10 text-slate-500 hover:text-white'}`}
+        >
+          {settings.logo ? 'Center Logo' : 'No Logo'}
+        </button>
+      </div>
+      {settings.logo && (
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-[8px] font-bold text-slate-600 uppercase px-1">
+            <span>Logo Size</span>
+            <span className="text-slate-400">{Math.round(settings.logoSize * 100)}%</span>
+          </div>
+          <input
+            type="range" min={0.1} max={0.35} step={0.01}
+            value={settings.logoSize}
+            onChange={e => update({ logoSize: parseFloat(e.target.value) }, 'QR Logo Size')}
+            className="w-full accent-white h-1.5 bg-white/5 rounded-full appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+      {check && (
+        <div className={`rounded-xl px-3 py-2 text-[9px] font-bold border ${check.ok ? 'border-emerald-500/30 text-emerald-300 bg-emerald-500/5' : 'border-amber-500/40 text-amber-300 bg-amber-500/5'}`}>
+          <p className="uppercase">
+            {check.ok ? 'Scans at poster size' : 'May not scan'}
+            {check.version !== null && ` · Version ${check.version} · ${check.modulePx.toFixed(1)}px modules`}
+          </p>
+          {check.issues.map(issue => <p key={issue} className="font-medium mt-1">{QR_ISSUE_LABELS[issue]}</p>)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QrPanel;
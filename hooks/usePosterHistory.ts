@@ -0,0 +1,100 @@
+import { SetStateAction, useCallback, useReducer } from 'react';
+import { PosterConfig } from '../types';
+
+const MAX_HISTORY = 100;
+// Edits sharing a coalesce key within this window collapse into a single step
+const COALESCE_WINDOW_MS = 1000;
+
+export interface HistoryEntry {
+  label: string;
+  config: PosterConfig;
+  timestamp: number;
+  coalesceKey?: string;
+}
+
+export interface EditMeta {
+  label?: string;
+  // Continuous edits (drags, sliders, typing) pass a stable key so they record as one step
+  coalesce?: string;
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+type HistoryAction =
+  | { type: 'set'; update: SetStateAction<PosterConfig>; meta: EditMeta; now: number }
+  | { type: 'jump'; index: number }
+  | { type: 'reset'; config: PosterConfig; label: string; now: number };
+
+const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'set': {
+      const current = state.entries[state.index];
+      const next = typeof action.update === 'function' ? action.update(current.config) : action.update;
+      if (next === current.config) return state;
+
+      const { label = 'Edit', coalesce } = action.meta;
+      const canCoalesce = !!coalesce
+        && state.index > 0
+        && current.coalesceKey === coalesce
+        && action.now - current.timestamp < COALESCE_WINDOW_MS;
+
+      if (canCoalesce) {
+        const entries = state.entries.slice(0, state.index + 1);
+        entries[state.index] = { ...current, config: next, timestamp: action.now };
+        return { entries, index: state.index };
+      }
+
+      const entries = [
+        ...state.entries.slice(0, state.index + 1),
+        { label, config: next, timestamp: action.now, coalesceKey: coalesce }
+      ].slice(-MAX_HISTORY);
+      return { entries, index: entries.length - 1 };
+    }
+    case 'jump': {
+      const index = Math.max(0, Math.min(state.entries.length - 1, action.index));
+      if (index === state.index) return state;
+      // Stop the restored entry from absorbing the next continuous edit
+      const entries = state.entries.map((entry, i) => i === index ? { ...entry, coalesceKey: undefined } : entry);
+      return { entries, index };
+    }
+    case 'reset':
+      return { entries: [{ label: action.label, config: action.config, timestamp: action.now }], index: 0 };
+  }
+};
+
+export const usePosterHistory = (initial: PosterConfig) => {
+  const [state, dispatch] = useReducer(historyReducer, undefined, () => ({
+    entries: [{ label: 'Initial State', config: initial, timestamp: Date.now() }],
+    index: 0
+  }));
+
+  const setConfig = useCallback((update: SetStateAction<PosterConfig>, meta: EditMeta = {}) => {
+    dispatch({ type: 'set', update, meta, now: Date.now() });
+  }, []);
+
+  const jumpTo = useCallback((index: number) => dispatch({ type: 'jump', index }), []);
+
+  const undo = useCallback(() => dispatch({ type: 'jump', index: state.index - 1 }), [state.index]);
+
+  const redo = useCallback(() => dispatch({ type: 'jump', index: state.index + 1 }), [state.index]);
+
+  const resetHistory = useCallback((config: PosterConfig, label = 'Opened Design') => {
+    dispatch({ type: 'reset', config, label, now: Date.now() });
+  }, []);
+
+  return {
+    config: state.entries[state.index].config,
+    setConfig,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    undo,
+    redo,
+    jumpTo,
+    resetHistory
+  };
+};
@@ -0,0 +1,67 @@
+import { PosterConfig, PosterLayer } from "../types";
+import { updateLayerPos } from "./layers";
+import { Box, unionBox } from "./renderer";
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+interface AlignContext {
+  canvas: Box;
+  boundsOf: (layer: PosterLayer) => Box;
+}
+
+const shiftLayer = (config: PosterConfig, layer: PosterLayer, dx: number, dy: number, canvas: Box) =>
+  updateLayerPos(config, layer.id, {
+    x: Math.round((layer.pos.x + (dx / canvas.w) * 100) * 10) / 10,
+    y: Math.round((layer.pos.y + (dy / canvas.h) * 100) * 10) / 10
+  });
+
+/**
+ * Aligns the given layers to each other, or to the canvas when only one layer is passed.
+ */
+export const alignLayers = (config: PosterConfig, ids: string[], edge: AlignEdge, { canvas, boundsOf }: AlignContext): PosterConfig => {
+  const layers = config.layers.filter(l => ids.includes(l.id));
+  if (layers.length === 0) return config;
+  const frame = layers.length === 1 ? canvas : unionBox(layers.map(boundsOf));
+
+  return layers.reduce((next, layer) => {
+    const box = boundsOf(layer);
+    let dx = 0;
+    let dy = 0;
+    switch (edge) {
+      case 'left': dx = frame.x - box.x; break;
+      case 'center': dx = frame.x + frame.w / 2 - (box.x + box.w / 2); break;
+      case 'right': dx = frame.x + frame.w - (box.x + box.w); break;
+      case 'top': dy = frame.y - box.y; break;
+      case 'middle': dy = frame.y + frame.h / 2 - (box.y + box.h / 2); break;
+      case 'bottom': dy = frame.y + frame.h - (box.y + box.h); break;
+    }
+    return shiftLayer(next, layer, dx, dy, canvas);
+  }, config);
+};
+
+/**
+ * Spaces three or more layers so the gaps between neighbours are equal, keeping the outermost layers in place.
+ */
+export const distributeLayers = (config: PosterConfig, ids: string[], axis: DistributeAxis, { canvas, boundsOf }: AlignContext): PosterConfig => {
+  const horizontal = axis === 'horizontal';
+  const items = config.layers
+    .filter(l => ids.includes(l.id))
+    .map(layer => ({ layer, box: boundsOf(layer) }))
+    .sort((a, b) => horizontal ? a.box.x - b.box.x : a.box.y - b.box.y);
+  if (items.length < 3) return config;
+
+  const startOf = (box: Box) => horizontal ? box.x : box.y;
+  const sizeOf = (box: Box) => horizontal ? box.w : box.h;
+  const first = items[0].box;
+  const last = items[items.length - 1].box;
+  const span = startOf(last) + sizeOf(last) - startOf(first);
+  const gap = (span - items.reduce((sum, item) => sum + sizeOf(item.box), 0)) / (items.length - 1);
+
+  let cursor = startOf(first);
+  return items.reduce((next, { layer, box }) => {
+    const delta = cursor - startOf(box);
+    cursor += sizeOf(box) + gap;
+    return shiftLayer(next, layer, horizontal ? delta : 0, horizontal ? 0 : delta, canvas);
+  }, config);
+};
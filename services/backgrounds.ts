@@ -0,0 +1,101 @@
+import { AspectRatio, BackgroundKind, GeneratedBackground, ImageProviderSettings } from "../types";
+import { GenerateImageRequest, ImageProvider } from "./imageProvider";
+
+export const MAX_CANDIDATES = 4;
+
+// Unpinned backgrounds beyond this are dropped oldest first, since every entry is a full image in the library
+export const MAX_UNPINNED_BACKGROUNDS = 24;
+
+const createBackgroundId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `bg-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createBackground = (
+  src: string, kind: BackgroundKind, prompt: string, aspectRatio: AspectRatio, settings: ImageProviderSettings, sourceId?: string
+): GeneratedBackground => ({
+  id: createBackgroundId(),
+  src, kind, prompt, aspectRatio, sourceId,
+  provider: settings.provider,
+  model: settings.provider === 'mock' ? '' : settings.model,
+  createdAt: new Date().toISOString(),
+  pinned: false
+});
+
+// New entries go to the front; the oldest unpinned ones fall off past the limit
+export const addBackgrounds = (history: GeneratedBackground[], entries: GeneratedBackground[]): GeneratedBackground[] => {
+  let unpinned = 0;
+  return [...entries, ...history].filter(entry => entry.pinned || ++unpinned <= MAX_UNPINNED_BACKGROUNDS);
+};
+
+export const togglePinned = (history: GeneratedBackground[], id: string): GeneratedBackground[] =>
+  history.map(entry => entry.id === id ? { ...entry, pinned: !entry.pinned } : entry);
+
+export const removeBackground = (history: GeneratedBackground[], id: string): GeneratedBackground[] =>
+  history.filter(entry => entry.id !== id);
+
+export const clearUnpinned = (history: GeneratedBackground[]): GeneratedBackground[] =>
+  history.filter(entry => entry.pinned);
+
+// Waits for every job; failures are skipped and only when all of them fail is the first error thrown
+const settleAll = async (jobs: Promise<string>[]) => {
+  const results = await Promise.allSettled(jobs);
+  const images = results.flatMap(result => result.status === 'fulfilled' && result.value ? [result.value] : []);
+  if (!images.length) {
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    throw failure?.reason ?? new Error("No image data received");
+  }
+  return images;
+};
+
+/**
+ * Requests `count` backgrounds for one scene description, sent to the engine as the built `request`, in parallel.
+ * Seeds continue from the earlier generations of the same scene and ratio, so asking again brings new options
+ * instead of repeats.
+ */
+export const generateCandidates = async (
+  provider: ImageProvider,
+  settings: ImageProviderSettings,
+  scene: string,
+  request: GenerateImageRequest,
+  count: number,
+  history: GeneratedBackground[]
+): Promise<GeneratedBackground[]> => {
+  const { aspectRatio } = request;
+  const firstSeed = history.filter(entry => entry.kind === 'generated' && entry.prompt === scene && entry.aspectRatio === aspectRatio).length;
+  const images = await settleAll(Array.from({ length: count }, (_, i) => provider.generate({ ...request, seed: firstSeed + i })));
+  return images.map(src => createBackground(src, 'generated', scene, aspectRatio, settings));
+};
+
+/**
+ * Requests `count` close variations of the current background in parallel, continuing the seeds from
+ * earlier variations of the same entry. `source` is the history entry it came from, when there is one.
+ */
+export const generateVariations = async (
+  provider: ImageProvider,
+  settings: ImageProviderSettings,
+  image: string,
+  source: GeneratedBackground | undefined,
+  fallback: { prompt: string; aspectRatio: AspectRatio },
+  count: number,
+  history: GeneratedBackground[]
+): Promise<GeneratedBackground[]> => {
+  const firstSeed = source ? history.filter(entry => entry.kind === 'variation' && entry.sourceId === source.id).length : 0;
+  const images = await settleAll(Array.from({ length: count }, (_, i) => provider.vary({ image, seed: firstSeed + i })));
+  const { prompt, aspectRatio } = source ?? fallback;
+  return images.map(src => createBackground(src, 'variation', prompt, aspectRatio, settings, source?.id));
+};
+
+/**
+ * A background already in the history that shows `current` at `ratio`: an earlier extension of it, or the
+ * image it was itself extended from. Switching formats back and forth then reuses images instead of
+ * extending an extension again.
+ */
+export const findExtension = (history: GeneratedBackground[], current: GeneratedBackground, ratio: AspectRatio) => {
+  if (current.kind === 'outpainted' && current.sourceId) {
+    const source = history.find(entry => entry.id === current.sourceId);
+    if (source?.aspectRatio === ratio) return source;
+    if (source) return findExtension(history, source, ratio);
+  }
+  return history.find(entry => entry.kind === 'outpainted' && entry.sourceId === current.id && entry.aspectRatio === ratio);
+};
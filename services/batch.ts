@@ -0,0 +1,150 @@
+import { CampaignField, PosterConfig } from "../types";
+import { parseDelimited } from "./csv";
+import { loadFonts } from "./fonts";
+import { revealAssetLayers } from "./layers";
+import { encodePng, ImageCache, imageSources, preloadImages, renderPosterCanvas } from "./renderer";
+import { ZipEntry } from "./zip";
+
+// Config fields a spreadsheet column can fill
+export type BatchTarget = CampaignField | 'theme' | 'qrUrl';
+
+export const BATCH_TARGETS: BatchTarget[] = [
+  'brandName', 'eventName', 'duration', 'price', 'headline', 'subHeadline', 'ctaText', 'theme', 'qrUrl'
+];
+
+// Target field to column header
+export type BatchMapping = Partial<Record<BatchTarget, string>>;
+
+export type BatchRow = Record<string, string>;
+
+export interface BatchData {
+  fileName: string;
+  headers: string[];
+  rows: BatchRow[];
+}
+
+export const DEFAULT_FILENAME_TEMPLATE = '{#}-{eventName}';
+
+const TARGET_ALIASES: Partial<Record<BatchTarget, string[]>> = {
+  qrUrl: ['qr', 'qrcode', 'qrimage'],
+  theme: ['prompt', 'themeprompt', 'scene'],
+  subHeadline: ['description', 'subheading', 'subtitle'],
+  ctaText: ['cta', 'calltoaction', 'button']
+};
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Turns CSV/TSV text into named rows. The first non-blank line holds the column headers.
+ */
+export const parseBatchData = (text: string, fileName: string): BatchData => {
+  const [headerRow, ...body] = parseDelimited(text);
+  if (!headerRow || body.length === 0) throw new Error("The sheet needs a header row and at least one data row.");
+
+  const seen = new Map<string, number>();
+  const headers = headerRow.map((raw, i) => {
+    const base = raw.trim() || `Column ${i + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} ${count}` : base;
+  });
+
+  const rows = body.map(cells => {
+    const row: BatchRow = {};
+    headers.forEach((header, i) => { row[header] = (cells[i] ?? '').trim(); });
+    return row;
+  });
+  return { fileName, headers, rows };
+};
+
+export const readBatchFile = async (file: File): Promise<BatchData> => parseBatchData(await file.text(), file.name);
+
+// Matches columns to fields by key, label or a few common aliases
+export const guessMapping = (headers: string[], labels: Record<BatchTarget, string>): BatchMapping => {
+  const mapping: BatchMapping = {};
+  BATCH_TARGETS.forEach(target => {
+    const names = [target, labels[target], ...(TARGET_ALIASES[target] ?? [])].map(normalizeHeader);
+    const header = headers.find(h => names.includes(normalizeHeader(h)));
+    if (header) mapping[target] = header;
+  });
+  return mapping;
+};
+
+// Empty cells keep the design's own value
+export const applyBatchRow = (config: PosterConfig, row: BatchRow, mapping: BatchMapping): PosterConfig => {
+  const next = { ...config };
+  BATCH_TARGETS.forEach(target => {
+    const header = mapping[target];
+    const value = header ? row[header] : '';
+    if (value) next[target] = value;
+  });
+  // A row's own QR image wins over the design's generated code, and shows the QR layer like an upload does
+  if (mapping.qrUrl && row[mapping.qrUrl]) return revealAssetLayers({ ...next, qrCode: null }, 'qrUrl');
+  return next;
+};
+
+const sanitizeFilename = (name: string) =>
+  name.replace(/[\\/:*?"<>|]+/g, '-').replace(/\s+/g, '-').replace(/-{2,}/g, '-').replace(/^[-.]+|[-.]+$/g, '');
+
+/**
+ * Builds a file name from a template such as `{#}-{City}-{eventName}`. Placeholders name a
+ * column header or a config field; `{#}` is the zero-padded row number. `config` is the row's
+ * poster, so an empty cell in a mapped column names the design value the poster keeps.
+ */
+export const formatBatchFilename = (
+  template: string, row: BatchRow, mapping: BatchMapping, config: PosterConfig, index: number, total: number
+): string => {
+  const number = String(index + 1).padStart(String(total).length, '0');
+  const name = template.replace(/\{([^}]+)\}/g, (_, key: string) => {
+    const token = key.trim();
+    if (token === '#') return number;
+    const header = Object.keys(row).find(h => h === token) ?? Object.keys(row).find(h => normalizeHeader(h) === normalizeHeader(token));
+    if (header && row[header]) return row[header];
+    const field = BATCH_TARGETS.find(t => header !== undefined && mapping[t] === header)
+      ?? BATCH_TARGETS.find(t => normalizeHeader(t) === normalizeHeader(token));
+    return field ? config[field] ?? '' : '';
+  });
+  return sanitizeFilename(name) || `poster-${number}`;
+};
+
+// Appends -2, -3… to repeated names so no file in the archive overwrites another
+export const uniqueFilenames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map(name => {
+    let candidate = name;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) candidate = `${name}-${n}`;
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+};
+
+interface BatchRenderOptions {
+  config: PosterConfig;
+  data: BatchData;
+  mapping: BatchMapping;
+  template: string;
+  images: ImageCache;
+  // Supplies the background for a row, e.g. the current one or a freshly generated image
+  background: (rowConfig: PosterConfig, index: number) => Promise<HTMLImageElement | null>;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Renders one PNG per row, in order, ready to be zipped.
+ */
+export const renderBatch = async ({ config, data, mapping, template, images, background, onProgress }: BatchRenderOptions): Promise<ZipEntry[]> => {
+  const total = data.rows.length;
+  const names = uniqueFilenames(data.rows.map((row, i) =>
+    formatBatchFilename(template, row, mapping, applyBatchRow(config, row, mapping), i, total)));
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < total; i++) {
+    const rowConfig = applyBatchRow(config, data.rows[i], mapping);
+    await preloadImages(images, imageSources(rowConfig));
+    await loadFonts(rowConfig);
+    const canvas = renderPosterCanvas(rowConfig, { background: await background(rowConfig, i), images });
+    entries.push({ name: `${names[i]}.png`, data: await encodePng(canvas) });
+    onProgress?.(i + 1, total);
+  }
+  return entries;
+};
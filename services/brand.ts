@@ -0,0 +1,108 @@
+import { BrandDefaults, BrandKit, PosterConfig } from "../types";
+import { colorAlpha, ColorWarning, layerColors, mapLayerColors, parseColor, Rgb, sameColor, toHex } from "./color";
+
+export const createBrandItemId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+const BRAND_DEFAULT_KEYS: (keyof BrandDefaults)[] = ['aspectRatio', 'theme', 'promptStyle', 'brandName', 'ctaText', 'logoUrl', 'layers', 'formatLayouts'];
+
+export const captureBrandDefaults = (config: PosterConfig): BrandDefaults => {
+  const defaults: Record<string, unknown> = {};
+  BRAND_DEFAULT_KEYS.forEach(key => { defaults[key] = config[key]; });
+  return defaults as BrandDefaults;
+};
+
+// Starts the design from the brand's defaults while keeping its campaign copy
+export const applyBrandDefaults = (config: PosterConfig, kit: BrandKit): PosterConfig => ({
+  ...config,
+  ...kit.defaults,
+  brandKitId: kit.id
+});
+
+// The generated QR code's colors, which the palette rules cover like any layer's
+const QR_COLOR_LABEL = 'QR Code';
+
+const qrColors = (config: PosterConfig): string[] =>
+  config.qrCode ? [config.qrCode.foreground, config.qrCode.background] : [];
+
+// Every distinct solid color the design paints with, as hex
+export const designColors = (config: PosterConfig): string[] => {
+  const colors: string[] = [];
+  [...config.layers.flatMap(layerColors), ...qrColors(config)].forEach(color => {
+    const rgb = parseColor(color);
+    const hex = rgb && toHex(rgb);
+    if (hex && !colors.includes(hex)) colors.push(hex);
+  });
+  return colors;
+};
+
+/**
+ * Seeds a kit from the current design: its colors become the first palette and its logo the first variant.
+ */
+export const createBrandKit = (name: string, config: PosterConfig): BrandKit => ({
+  id: createBrandItemId('brand'),
+  name,
+  palettes: [{ id: createBrandItemId('palette'), name: 'Primary', colors: designColors(config) }],
+  logos: config.logoUrl ? [{ id: createBrandItemId('logo'), name: 'Primary Logo', src: config.logoUrl }] : [],
+  fonts: ['Inter'],
+  stylePresets: [],
+  defaults: captureBrandDefaults(config),
+  locked: false,
+  updatedAt: new Date().toISOString()
+});
+
+export const brandColors = (kit: BrandKit): string[] => {
+  const colors: string[] = [];
+  kit.palettes.forEach(p => p.colors.forEach(color => { if (!colors.some(c => sameColor(c, color))) colors.push(color); }));
+  return colors;
+};
+
+// Colors that can't be parsed are left alone rather than flagged
+export const isOnBrand = (color: string, palette: string[]) =>
+  !parseColor(color) || palette.some(c => sameColor(c, color));
+
+// Nearest palette color by RGB distance; translucent colors keep their opacity
+export const snapToPalette = (color: string, palette: string[]): string => {
+  const rgb = parseColor(color);
+  if (!rgb || palette.length === 0 || isOnBrand(color, palette)) return color;
+  const distance = (c: Rgb) => c.reduce((sum, v, i) => sum + (v - rgb[i]) ** 2, 0);
+  const nearest = palette
+    .map(c => parseColor(c))
+    .filter((c): c is Rgb => !!c)
+    .reduce((best, c) => distance(c) < distance(best) ? c : best);
+  const alpha = colorAlpha(color);
+  return alpha < 1 ? `rgba(${nearest.join(', ')}, ${alpha})` : toHex(nearest);
+};
+
+export const offBrandColors = (config: PosterConfig, kit: BrandKit): ColorWarning[] => {
+  const palette = brandColors(kit);
+  if (palette.length === 0) return [];
+  const warnings: ColorWarning[] = [];
+  const sources = [
+    ...config.layers.map(layer => ({ name: layer.name, colors: layerColors(layer) })),
+    { name: QR_COLOR_LABEL, colors: qrColors(config) }
+  ];
+  sources.forEach(({ name, colors }) => colors.forEach(color => {
+    if (!isOnBrand(color, palette) && !warnings.some(w => w.layer === name && w.color === color)) {
+      warnings.push({ layer: name, color });
+    }
+  }));
+  return warnings;
+};
+
+/**
+ * Moves every off-brand color onto the kit's palette. Returns the same config when it is already on brand,
+ * so a locked kit can run this after every edit without creating history steps.
+ */
+export const enforceBrandColors = (config: PosterConfig, kit: BrandKit): PosterConfig => {
+  const palette = brandColors(kit);
+  if (palette.length === 0) return config;
+  const layers = config.layers.map(layer => mapLayerColors(layer, color => snapToPalette(color, palette)));
+  let qrCode = config.qrCode;
+  if (qrCode) {
+    const foreground = snapToPalette(qrCode.foreground, palette);
+    const background = snapToPalette(qrCode.background, palette);
+    if (foreground !== qrCode.foreground || background !== qrCode.background) qrCode = { ...qrCode, foreground, background };
+  }
+  if (layers.every((layer, i) => layer === config.layers[i]) && qrCode === config.qrCode) return config;
+  return { ...config, layers, qrCode };
+};
@@ -0,0 +1,101 @@
+import { PosterLayer, TextGradient } from "../types";
+
+export type Rgb = [number, number, number];
+
+export interface ColorWarning {
+  layer: string;
+  color: string;
+}
+
+const NAMED_COLORS: Record<string, Rgb> = { white: [255, 255, 255], black: [0, 0, 0] };
+
+// Hex, rgb()/rgba() and the few named colors the defaults use; anything else is null
+export const parseColor = (value: string): Rgb | null => {
+  const named = NAMED_COLORS[value.trim().toLowerCase()];
+  if (named) return named;
+  const hex = value.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const h = hex[1].length === 3 ? hex[1].split('').map(c => c + c).join('') : hex[1];
+    return [0, 2, 4].map(i => parseInt(h.slice(i, i + 2), 16)) as Rgb;
+  }
+  const rgb = value.match(/rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)/i);
+  return rgb ? [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])] : null;
+};
+
+export const colorAlpha = (value: string) => {
+  const match = value.match(/rgba\(\s*[\d.]+\s*,\s*[\d.]+\s*,\s*[\d.]+\s*,\s*([\d.]+)\s*\)/i);
+  return match ? Number(match[1]) : 1;
+};
+
+export const toHex = ([r, g, b]: Rgb) => `#${[r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+// Applies an opacity on top of the color's own; unparseable colors pass through unchanged
+export const withAlpha = (value: string, opacity: number) => {
+  const rgb = parseColor(value);
+  return rgb ? `rgba(${rgb.join(', ')}, ${Number((colorAlpha(value) * opacity).toFixed(3))})` : value;
+};
+
+// Same RGB regardless of notation; opacity is ignored so tints of a color still match it
+export const sameColor = (a: string, b: string) => {
+  const ca = parseColor(a);
+  const cb = parseColor(b);
+  return !!ca && !!cb && ca.every((c, i) => Math.round(c) === Math.round(cb[i]));
+};
+
+const mapColorOf = <T extends { color: string }>(effect: T | undefined, fn: (color: string) => string): T | undefined => {
+  if (!effect) return effect;
+  const color = fn(effect.color);
+  return color === effect.color ? effect : { ...effect, color };
+};
+
+const mapGradient = (gradient: TextGradient, fn: (color: string) => string): TextGradient => {
+  const from = fn(gradient.from);
+  const to = fn(gradient.to);
+  return from === gradient.from && to === gradient.to ? gradient : { ...gradient, from, to };
+};
+
+/**
+ * Passes every color a layer paints with through `fn`. The layer is returned untouched when nothing changes.
+ */
+export const mapLayerColors = (layer: PosterLayer, fn: (color: string) => string): PosterLayer => {
+  switch (layer.type) {
+    case 'text': {
+      const color = fn(layer.color);
+      const gradient = layer.gradient && mapGradient(layer.gradient, fn);
+      const stroke = mapColorOf(layer.stroke, fn);
+      const shadow = mapColorOf(layer.shadow, fn);
+      const glow = mapColorOf(layer.glow, fn);
+      const plate = mapColorOf(layer.plate, fn);
+      return color === layer.color && gradient === layer.gradient && stroke === layer.stroke && shadow === layer.shadow
+        && glow === layer.glow && plate === layer.plate ? layer : { ...layer, color, gradient, stroke, shadow, glow, plate };
+    }
+    case 'button': {
+      const color = fn(layer.color);
+      const fill = fn(layer.fill);
+      return color === layer.color && fill === layer.fill ? layer : { ...layer, color, fill };
+    }
+    case 'badge': {
+      const color = fn(layer.color);
+      const items = layer.items.map(item => {
+        const fill = fn(item.fill);
+        return fill === item.fill ? item : { ...item, fill };
+      });
+      return color === layer.color && items.every((item, i) => item === layer.items[i]) ? layer : { ...layer, color, items };
+    }
+    case 'shape': {
+      const fill = fn(layer.fill);
+      return fill === layer.fill ? layer : { ...layer, fill };
+    }
+    case 'image': {
+      if (!layer.backdrop) return layer;
+      const backdrop = fn(layer.backdrop);
+      return backdrop === layer.backdrop ? layer : { ...layer, backdrop };
+    }
+  }
+};
+
+export const layerColors = (layer: PosterLayer): string[] => {
+  const colors: string[] = [];
+  mapLayerColors(layer, color => { colors.push(color); return color; });
+  return colors;
+};
@@ -0,0 +1,112 @@
+import { PosterConfig } from "../types";
+import type { GenerateImageRequest } from "./imageProvider";
+import { buildPrompt } from "./prompts";
+import { axisAlignedBounds, Box, createCanvas, createSurface, ImageCache, measureLayer, posterHeight, RenderSurface } from "./renderer";
+
+// Part of the poster that text or logos cover, in fractions of the canvas so it holds for any output size
+export interface LayoutRegion {
+  box: Box;
+  layers: string[];
+}
+
+// Room left around each layer so detail doesn't crowd its edges
+const REGION_PADDING = 0.02;
+
+const MASK_WIDTH = 256;
+
+// Regions are fractions of the poster, so a half-size surface measures them just as well and more cheaply
+const LAYOUT_WIDTH = 540;
+
+const overlaps = (a: Box, b: Box) => a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+
+const union = (a: Box, b: Box): Box => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, w: Math.max(a.x + a.w, b.x + b.w) - x, h: Math.max(a.y + a.h, b.y + b.h) - y };
+};
+
+/**
+ * Areas of the poster the visible text, badge, button and image layers occupy, padded and merged where
+ * they touch. Shapes are left out since they are often full-bleed overlays rather than content.
+ */
+export const layoutRegions = (surface: RenderSurface): LayoutRegion[] => {
+  const { width, height } = surface;
+  let regions: LayoutRegion[] = [];
+  surface.config.layers.forEach(layer => {
+    if (!layer.pos.visible || layer.type === 'shape') return;
+    const bounds = axisAlignedBounds(measureLayer(surface, layer));
+    const x = Math.max(0, bounds.x / width - REGION_PADDING);
+    const y = Math.max(0, bounds.y / height - REGION_PADDING);
+    const box = {
+      x, y,
+      w: Math.min(1, (bounds.x + bounds.w) / width + REGION_PADDING) - x,
+      h: Math.min(1, (bounds.y + bounds.h) / height + REGION_PADDING) - y
+    };
+    if (box.w > 0 && box.h > 0) regions.push({ box, layers: [layer.name] });
+  });
+
+  // Keep merging until no two regions overlap, since each union can reach a third region
+  let merged = true;
+  while (merged) {
+    merged = false;
+    const next: LayoutRegion[] = [];
+    regions.forEach(region => {
+      const hit = next.find(other => overlaps(other.box, region.box));
+      if (hit) {
+        hit.box = union(hit.box, region.box);
+        hit.layers.push(...region.layers);
+        merged = true;
+      } else {
+        next.push({ box: { ...region.box }, layers: [...region.layers] });
+      }
+    });
+    regions = next;
+  }
+  return regions.sort((a, b) => a.box.y - b.box.y || a.box.x - b.box.x);
+};
+
+const percent = (fraction: number) => Math.round(fraction * 100);
+
+const placement = ({ x, y, w, h }: Box) => {
+  const cx = x + w / 2;
+  const cy = y + h / 2;
+  const vertical = cy < 1 / 3 ? 'top' : cy < 2 / 3 ? 'middle' : 'bottom';
+  if (w > 0.6) return `${vertical} band`;
+  const horizontal = cx < 1 / 3 ? 'left' : cx < 2 / 3 ? 'center' : 'right';
+  return vertical === 'middle' && horizontal === 'center' ? 'center' : `${vertical} ${horizontal}`;
+};
+
+// The regions as prompt text, with the same percentages the mask image uses
+export const describeLayout = (regions: LayoutRegion[], withMask: boolean): string => [
+  'Layout: the poster\'s text and logos will be placed over these areas, so keep them calm, uncluttered and low in detail (dark or soft focus), and put the main subject elsewhere:',
+  ...regions.map(({ box, layers }) =>
+    `- ${placement(box)}: ${percent(box.y)}–${percent(box.y + box.h)}% from the top, ${percent(box.x)}–${percent(box.x + box.w)}% from the left (${layers.join(', ')})`),
+  ...(withMask ? ['The attached black and white image is a mask of the same layout: keep the white areas clear.'] : [])
+].join('\n');
+
+// White where layers sit on a black poster-shaped canvas
+export const layoutMask = (regions: LayoutRegion[], config: PosterConfig): string => {
+  const canvas = createCanvas(MASK_WIDTH, posterHeight(config.aspectRatio, MASK_WIDTH));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas rendering is not available.");
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#ffffff';
+  regions.forEach(({ box }) => ctx.fillRect(box.x * canvas.width, box.y * canvas.height, box.w * canvas.width, box.h * canvas.height));
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Everything the image engine needs to paint a background for this design: the built prompt and,
+ * depending on the style's layout guidance, where the layers sit as text and as a mask image.
+ */
+export const backgroundRequest = (config: PosterConfig, images: ImageCache): GenerateImageRequest => {
+  const guidance = config.promptStyle.composition.layoutGuidance;
+  const regions = guidance === 'off' ? [] : layoutRegions(createSurface(config, images, LAYOUT_WIDTH));
+  const withMask = guidance === 'mask' && regions.length > 0;
+  return {
+    prompt: buildPrompt(config.theme, config.promptStyle, regions.length ? describeLayout(regions, withMask) : null),
+    aspectRatio: config.aspectRatio,
+    mask: withMask ? layoutMask(regions, config) : undefined
+  };
+};
@@ -0,0 +1,47 @@
+// Picks whichever of tab, semicolon or comma appears most often in the header line
+export const detectDelimiter = (text: string): string => {
+  const header = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = ['\t', ';', ','].map(d => ({ d, n: header.split(d).length - 1 }));
+  const best = counts.reduce((a, b) => b.n > a.n ? b : a);
+  return best.n > 0 ? best.d : ',';
+};
+
+/**
+ * Parses CSV/TSV text into rows of cells. Handles quoted cells with embedded delimiters,
+ * doubled quotes and line breaks, as exported by spreadsheet apps. Blank lines are dropped.
+ */
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(c => c.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length) endRow();
+  return rows;
+};
@@ -0,0 +1,144 @@
+import { PosterConfig } from "../types";
+import { ColorWarning, layerColors, parseColor, Rgb } from "./color";
+import { createImagePdf } from "./pdf";
+import { encodeCanvas, POSTER_WIDTH, posterHeight, RenderAssets, renderPosterCanvas } from "./renderer";
+import { createPosterSvg } from "./svg";
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'pdf' | 'svg';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mime: string; extension: string; lossy: boolean }> = {
+  png: { label: 'PNG', mime: 'image/png', extension: 'png', lossy: false },
+  jpeg: { label: 'JPEG', mime: 'image/jpeg', extension: 'jpg', lossy: true },
+  webp: { label: 'WebP', mime: 'image/webp', extension: 'webp', lossy: true },
+  pdf: { label: 'Print PDF', mime: 'application/pdf', extension: 'pdf', lossy: true },
+  svg: { label: 'SVG', mime: 'image/svg+xml', extension: 'svg', lossy: false }
+};
+
+export const EXPORT_SCALES = [1, 2, 4];
+
+// Trim widths for print; the height follows the poster's aspect ratio
+export const PRINT_WIDTHS_MM: Record<string, number> = { A4: 210, A3: 297, A2: 420 };
+
+export const BLEED_OPTIONS_MM = [0, 3, 5];
+
+// Below this a print shop will usually flag the file as low resolution
+export const MIN_PRINT_DPI = 150;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  quality: number; // 0–1, lossy formats only
+  scale: number;
+  printWidth: keyof typeof PRINT_WIDTHS_MM;
+  bleedMm: number;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  quality: 0.92,
+  scale: 1,
+  printWidth: 'A3',
+  bleedMm: 3
+};
+
+const MM_PER_INCH = 25.4;
+const POINTS_PER_MM = 72 / MM_PER_INCH;
+
+export const supportsMime = (mime: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  return canvas.toDataURL(mime).startsWith(`data:${mime}`);
+};
+
+export const outputSize = (config: PosterConfig, scale: number) => ({
+  width: Math.round(POSTER_WIDTH * scale),
+  height: Math.round(posterHeight(config.aspectRatio) * scale)
+});
+
+export const printMetrics = (config: PosterConfig, options: ExportOptions) => {
+  const widthMm = PRINT_WIDTHS_MM[options.printWidth];
+  const heightMm = widthMm * posterHeight(config.aspectRatio) / POSTER_WIDTH;
+  const { width } = outputSize(config, options.scale);
+  return { widthMm, heightMm, dpi: Math.round(width / (widthMm / MM_PER_INCH)) };
+};
+
+// Bright, saturated blues, greens, purples and magentas sit outside what CMYK inks reproduce
+const isOutOfGamut = ([r, g, b]: Rgb) => {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const saturation = max ? (max - min) / max : 0;
+  if (max < 0.6 || saturation < 0.7) return false;
+  const d = max - min;
+  let hue = 0;
+  if (max === r / 255) hue = ((g - b) / 255 / d) % 6;
+  else if (max === g / 255) hue = (b - r) / 255 / d + 2;
+  else hue = (r - g) / 255 / d + 4;
+  hue = (hue * 60 + 360) % 360;
+  return hue >= 75 && hue <= 330;
+};
+
+/**
+ * Lists layer colors likely to shift when printed in CMYK.
+ */
+export const cmykWarnings = (config: PosterConfig): ColorWarning[] => {
+  const warnings: ColorWarning[] = [];
+  const check = (layer: string, color: string) => {
+    const rgb = parseColor(color);
+    if (rgb && isOutOfGamut(rgb) && !warnings.some(w => w.layer === layer && w.color === color)) {
+      warnings.push({ layer, color });
+    }
+  };
+  config.layers.filter(l => l.pos.visible).forEach(layer => layerColors(layer).forEach(color => check(layer.name, color)));
+  return warnings;
+};
+
+// Share of the rendered poster (background included) in colors that may dull in print, from a coarse sample
+export const outOfGamutShare = (canvas: HTMLCanvasElement): number => {
+  const sample = document.createElement('canvas');
+  sample.width = 64;
+  sample.height = Math.max(1, Math.round((canvas.height / canvas.width) * 64));
+  const ctx = sample.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return 0;
+  ctx.drawImage(canvas, 0, 0, sample.width, sample.height);
+  try {
+    const { data } = ctx.getImageData(0, 0, sample.width, sample.height);
+    let flagged = 0;
+    for (let i = 0; i < data.length; i += 4) if (isOutOfGamut([data[i], data[i + 1], data[i + 2]])) flagged++;
+    return flagged / (data.length / 4);
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Renders the poster in the requested format. PDFs carry the trim size and bleed for print.
+ */
+export const exportPoster = async (config: PosterConfig, assets: RenderAssets, options: ExportOptions): Promise<Blob> => {
+  const { format, quality } = options;
+  const width = POSTER_WIDTH * options.scale;
+
+  if (format === 'svg') {
+    return new Blob([createPosterSvg(config, assets)], { type: EXPORT_FORMATS.svg.mime });
+  }
+
+  if (format === 'pdf') {
+    const { widthMm, heightMm } = printMetrics(config, options);
+    const bleed = (options.bleedMm / widthMm) * width;
+    const canvas = renderPosterCanvas(config, assets, { width, bleed });
+    const jpeg = new Uint8Array(await (await encodeCanvas(canvas, 'image/jpeg', quality)).arrayBuffer());
+    return createImagePdf({
+      jpeg,
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      pageWidth: (widthMm + options.bleedMm * 2) * POINTS_PER_MM,
+      pageHeight: (heightMm + options.bleedMm * 2) * POINTS_PER_MM,
+      bleed: options.bleedMm * POINTS_PER_MM,
+      title: config.eventName
+    });
+  }
+
+  const { mime, lossy } = EXPORT_FORMATS[format];
+  return encodeCanvas(renderPosterCanvas(config, assets, { width }), mime, lossy ? quality : undefined);
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
@@ -0,0 +1,148 @@
+import { BrandKit, CustomFont, PosterConfig } from "../types";
+import { isTextual } from "./layers";
+import { DEFAULT_FONT_FAMILY, fontFamily, fontStack, fontWeight, layerTexts, SCRIPT_FONTS } from "./renderer";
+
+export type FontCategory = 'sans' | 'serif' | 'display' | 'script' | 'mono' | 'arabic' | 'devanagari' | 'uploaded';
+
+export interface FontOption {
+  family: string;
+  category: FontCategory;
+  weights: number[];
+  italic: boolean;
+}
+
+// Google Fonts families offered in the picker, loaded on demand
+export const FONT_LIBRARY: FontOption[] = [
+  { family: 'Inter', category: 'sans', weights: [300, 400, 500, 600, 700, 800, 900], italic: false },
+  { family: 'Roboto', category: 'sans', weights: [300, 400, 500, 700, 900], italic: true },
+  { family: 'Montserrat', category: 'sans', weights: [300, 400, 500, 600, 700, 800, 900], italic: true },
+  { family: 'Poppins', category: 'sans', weights: [300, 400, 500, 600, 700, 800, 900], italic: true },
+  { family: 'Space Grotesk', category: 'sans', weights: [300, 400, 500, 600, 700], italic: false },
+  { family: 'Oswald', category: 'display', weights: [300, 400, 500, 600, 700], italic: false },
+  { family: 'Bebas Neue', category: 'display', weights: [400], italic: false },
+  { family: 'Anton', category: 'display', weights: [400], italic: false },
+  { family: 'Archivo Black', category: 'display', weights: [400], italic: false },
+  { family: 'Playfair Display', category: 'serif', weights: [400, 500, 600, 700, 800, 900], italic: true },
+  { family: 'DM Serif Display', category: 'serif', weights: [400], italic: true },
+  { family: 'Lora', category: 'serif', weights: [400, 500, 600, 700], italic: true },
+  { family: 'Merriweather', category: 'serif', weights: [300, 400, 700, 900], italic: true },
+  { family: 'Dancing Script', category: 'script', weights: [400, 500, 600, 700], italic: false },
+  { family: 'JetBrains Mono', category: 'mono', weights: [300, 400, 500, 600, 700, 800], italic: true },
+  { family: 'Noto Sans Arabic', category: 'arabic', weights: [300, 400, 500, 600, 700, 800, 900], italic: false },
+  { family: 'Noto Naskh Arabic', category: 'arabic', weights: [400, 500, 600, 700], italic: false },
+  { family: 'Cairo', category: 'arabic', weights: [300, 400, 500, 600, 700, 800, 900], italic: false },
+  { family: 'Tajawal', category: 'arabic', weights: [300, 400, 500, 700, 800, 900], italic: false },
+  { family: 'Noto Sans Devanagari', category: 'devanagari', weights: [300, 400, 500, 600, 700, 800, 900], italic: false },
+  { family: 'Hind', category: 'devanagari', weights: [300, 400, 500, 600, 700], italic: false },
+  { family: 'Mukta', category: 'devanagari', weights: [300, 400, 500, 600, 700, 800], italic: false }
+];
+
+export const FONT_WEIGHT_LABELS: Record<number, string> = {
+  100: 'Thin', 200: 'Extra Light', 300: 'Light', 400: 'Regular', 500: 'Medium',
+  600: 'Semibold', 700: 'Bold', 800: 'Extra Bold', 900: 'Black'
+};
+
+const ALL_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+export const FONT_FILE_TYPES = ['.ttf', '.otf', '.woff', '.woff2'];
+
+const uploadedOption = (family: string): FontOption => ({ family, category: 'uploaded', weights: ALL_WEIGHTS, italic: true });
+
+const findOption = (config: PosterConfig, family: string): FontOption | undefined =>
+  FONT_LIBRARY.find(f => f.family === family) ?? (config.customFonts.some(f => f.family === family) ? uploadedOption(family) : undefined);
+
+/**
+ * Families the picker offers: the brand's approved fonts first, then uploads, then the library.
+ * A locked brand kit limits the list to its approved fonts.
+ */
+export const fontOptions = (config: PosterConfig, kit: BrandKit | null): FontOption[] => {
+  const approved = (kit?.fonts ?? []).map(family => findOption(config, family) ?? uploadedOption(family));
+  if (kit?.locked && approved.length > 0) return approved;
+  const rest = [...config.customFonts.map(f => uploadedOption(f.family)), ...FONT_LIBRARY];
+  return [...approved, ...rest.filter(f => !approved.some(a => a.family === f.family))];
+};
+
+export const fontWeights = (config: PosterConfig, family: string) => findOption(config, family)?.weights ?? ALL_WEIGHTS;
+
+// Every family the design draws with, plus the script fallbacks its text needs
+export const fontFamilies = (config: PosterConfig): string[] => {
+  const families = new Set<string>([DEFAULT_FONT_FAMILY]);
+  config.layers.filter(isTextual).forEach(layer => {
+    families.add(fontFamily(layer));
+    const text = layerTexts(config, layer).join(' ');
+    SCRIPT_FONTS.forEach(f => { if (f.pattern.test(text)) families.add(f.family); });
+  });
+  return [...families];
+};
+
+export const readFontFile = (file: File) => new Promise<CustomFont>((resolve, reject) => {
+  const ext = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+  if (!FONT_FILE_TYPES.includes(ext)) {
+    reject(new Error(`"${file.name}" is not a font file. Use ${FONT_FILE_TYPES.join(', ')}.`));
+    return;
+  }
+  const reader = new FileReader();
+  reader.onload = () => resolve({
+    family: file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || 'Custom Font',
+    src: reader.result as string,
+    fileName: file.name
+  });
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export const googleFontsUrl = (option: FontOption) => {
+  const family = option.family.replace(/ /g, '+');
+  const axes = option.italic
+    ? `ital,wght@${[0, 1].flatMap(i => option.weights.map(w => `${i},${w}`)).join(';')}`
+    : `wght@${option.weights.join(';')}`;
+  return `https://fonts.googleapis.com/css2?family=${family}:${axes}&display=swap`;
+};
+
+// One pending load per family, so repeated renders share the same stylesheet or FontFace
+const fontLoads = new Map<string, Promise<void>>();
+
+const loadStylesheet = (href: string) => new Promise<void>(resolve => {
+  const link = document.createElement('link');
+  link.rel = 'stylesheet';
+  link.href = href;
+  link.onload = () => resolve();
+  link.onerror = () => { console.warn(`Could not load font stylesheet ${href}`); resolve(); };
+  document.head.appendChild(link);
+});
+
+const loadCustomFont = async (font: CustomFont) => {
+  try {
+    const face = new FontFace(font.family, `url(${font.src})`);
+    document.fonts.add(await face.load());
+  } catch (err) {
+    console.warn(`Could not load font ${font.fileName}`, err);
+  }
+};
+
+const loadFamily = (config: PosterConfig, family: string) => {
+  let pending = fontLoads.get(family);
+  if (!pending) {
+    const custom = config.customFonts.find(f => f.family === family);
+    const option = FONT_LIBRARY.find(f => f.family === family);
+    if (!custom && !option) return Promise.resolve();
+    pending = custom ? loadCustomFont(custom) : loadStylesheet(googleFontsUrl(option!));
+    fontLoads.set(family, pending);
+  }
+  return pending;
+};
+
+/**
+ * Makes sure every font face the design uses is ready, so canvas text never draws with a fallback.
+ * Fonts that fail to load are skipped and the fallback is used.
+ */
+export const loadFonts = async (config: PosterConfig) => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  await Promise.all(fontFamilies(config).map(family => loadFamily(config, family)));
+  // Loading against the layer's own text pulls in the faces and unicode ranges it actually covers
+  await Promise.all(config.layers.filter(isTextual).flatMap(layer => {
+    const style = layer.pos.italic ? 'italic ' : '';
+    return layerTexts(config, layer).map(text =>
+      document.fonts.load(`${style}${fontWeight(layer)} 16px ${fontStack(layer)}`, text).catch(() => []));
+  }));
+};
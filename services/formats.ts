@@ -0,0 +1,98 @@
+import { AspectRatio, ElementPos, FormatLayout, LayoutPos, PosterConfig, PosterLayer } from "../types";
+import { Box } from "./renderer";
+
+export const FORMAT_LABELS: Record<AspectRatio, string> = {
+  [AspectRatio.SQUARE]: 'Square',
+  [AspectRatio.STORY]: 'Story',
+  [AspectRatio.LANDSCAPE]: 'Landscape',
+  [AspectRatio.LINKEDIN]: 'LinkedIn'
+};
+
+// File-name friendly ratio, e.g. 9x16
+export const formatSlug = (ratio: AspectRatio) => ratio.replace(':', 'x');
+
+export const pickLayout = (pos: ElementPos): LayoutPos => ({
+  x: pos.x, y: pos.y, scale: pos.scale, rotation: pos.rotation, visible: pos.visible
+});
+
+export const isCustomFormat = (config: PosterConfig, ratio: AspectRatio) => !!config.formatLayouts[ratio];
+
+/**
+ * Returns the design as laid out for an aspect ratio. Formats without their own layout use the shared positions.
+ */
+export const resolveFormat = (config: PosterConfig, ratio = config.aspectRatio): PosterConfig => {
+  const layout = config.formatLayouts[ratio];
+  if (!layout) return ratio === config.aspectRatio ? config : { ...config, aspectRatio: ratio };
+  return {
+    ...config,
+    aspectRatio: ratio,
+    layers: config.layers.map(l => layout[l.id] ? { ...l, pos: { ...l.pos, ...layout[l.id] } } : l)
+  };
+};
+
+/**
+ * Applies an edit made against the resolved current format back onto the design. Placement changes
+ * land in the format's own layout when it has one; everything else is shared by every format.
+ */
+export const commitFormatEdit = (config: PosterConfig, update: (view: PosterConfig) => PosterConfig): PosterConfig => {
+  const view = resolveFormat(config);
+  const next = update(view);
+  if (next === view) return config;
+  if (!config.formatLayouts[view.aspectRatio]) return next;
+
+  const shared = new Map(config.layers.map(l => [l.id, l.pos]));
+  const layout: FormatLayout = {};
+  const layers = next.layers.map(layer => {
+    const sharedPos = shared.get(layer.id);
+    // A layer added in this format starts out with its position shared
+    if (!sharedPos) return layer;
+    layout[layer.id] = pickLayout(layer.pos);
+    return { ...layer, pos: { ...layer.pos, ...pickLayout(sharedPos) } };
+  });
+  return { ...next, layers, formatLayouts: { ...next.formatLayouts, [view.aspectRatio]: layout } };
+};
+
+// Gives a format its own layout, starting from the given placements (or its current ones)
+export const customizeFormat = (config: PosterConfig, ratio: AspectRatio, layers = resolveFormat(config, ratio).layers): PosterConfig => {
+  const layout: FormatLayout = {};
+  layers.forEach(l => { layout[l.id] = pickLayout(l.pos); });
+  return { ...config, formatLayouts: { ...config.formatLayouts, [ratio]: layout } };
+};
+
+export const resetFormat = (config: PosterConfig, ratio: AspectRatio): PosterConfig => {
+  const { [ratio]: _removed, ...formatLayouts } = config.formatLayouts;
+  return { ...config, formatLayouts };
+};
+
+/**
+ * Shrinks layers that overflow the canvas and pulls stray ones back inside a margin, so a layout
+ * made for one aspect ratio is a usable starting point for another.
+ */
+export const fitLayersToCanvas = (layers: PosterLayer[], canvas: Box, boundsOf: (layer: PosterLayer) => Box, margin = 0.03): PosterLayer[] =>
+  layers.map(layer => {
+    if (!layer.pos.visible) return layer;
+    const box = boundsOf(layer);
+    const mx = canvas.w * margin;
+    const my = canvas.h * margin;
+    const factor = Math.min(1, box.w ? (canvas.w - 2 * mx) / box.w : 1, box.h ? (canvas.h - 2 * my) / box.h : 1);
+
+    // Scaling happens around the layer's anchor point
+    const ax = (layer.pos.x / 100) * canvas.w;
+    const ay = (layer.pos.y / 100) * canvas.h;
+    const scaled = { x: ax + (box.x - ax) * factor, y: ay + (box.y - ay) * factor, w: box.w * factor, h: box.h * factor };
+    const shift = (start: number, size: number, min: number, max: number) =>
+      start < min ? min - start : start + size > max ? max - (start + size) : 0;
+    const dx = shift(scaled.x, scaled.w, mx, canvas.w - mx);
+    const dy = shift(scaled.y, scaled.h, my, canvas.h - my);
+    if (factor === 1 && !dx && !dy) return layer;
+
+    return {
+      ...layer,
+      pos: {
+        ...layer.pos,
+        scale: Math.round(layer.pos.scale * factor * 100) / 100,
+        x: Math.round((layer.pos.x + (dx / canvas.w) * 100) * 10) / 10,
+        y: Math.round((layer.pos.y + (dy / canvas.h) * 100) * 10) / 10
+      }
+    };
+  });
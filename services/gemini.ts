@@ -1,51 +1,87 @@
 
-import { GoogleGenAI } from "@google/genai";
+import { GenerateContentResponse, GoogleGenAI, Part } from "@google/genai";
 import { AspectRatio } from "../types";
+import { padToAspect } from "./imageEditing";
+import type { ImageProvider } from "./imageProvider";
 
-export const generatePosterBackground = async (
-  prompt: string,
-  aspectRatio: AspectRatio
-): Promise<string> => {
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-image';
+
+// Suggestions for the model field; any image-capable Gemini model name works
+export const GEMINI_MODELS = ['gemini-2.5-flash-image', 'gemini-3-pro-image-preview'];
+
+export const hasGeminiKey = () => !!process.env.API_KEY;
+
+const client = () => {
   const apiKey = process.env.API_KEY;
-  
+
   if (!apiKey) {
     console.warn("API_KEY is missing. Background generation will fail.");
-    throw new Error("Missing API_KEY. Please set your Gemini API key.");
+    throw new Error("Missing API_KEY. Please set your Gemini API key, or switch to the offline mock provider.");
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-  
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            text: `High-quality cinematic background for a professional event poster. 
-            Scene: ${prompt}. 
-            Vibe: Ultra-modern, Dubai luxury, technology-centric. 
-            Composition: Ensure the lower 40% and top 20% of the image has relative negative space (dark or soft focus) to allow for white text and logos to be clearly visible. 
-            Do not include any pre-written text in the image. 
-            Use professional architectural lighting.`
-          },
-        ],
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: aspectRatio as any,
-        },
-      },
-    });
-
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-      }
+  return new GoogleGenAI({ apiKey });
+};
+
+// Splits a data URL into the MIME type and base64 payload the API expects
+const inlineImage = (src: string): Part => {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(src);
+  if (!match) throw new Error("Only uploaded or generated images can be sent to the image model.");
+  return { inlineData: { mimeType: match[1], data: match[2] } };
+};
+
+const firstImage = (response: GenerateContentResponse): string => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
     }
-    
-    throw new Error("Empty model response");
-  } catch (error) {
-    console.error("Gemini Image Gen Error:", error);
-    throw error;
   }
+  throw new Error("Empty model response");
+};
+
+export const createGeminiProvider = (model: string): ImageProvider => {
+  const request = async (parts: Part[], imageConfig: { aspectRatio?: AspectRatio; imageSize?: string }, seed?: number) => {
+    const ai = client();
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: { parts },
+        config: { imageConfig, seed }
+      });
+      return firstImage(response);
+    } catch (error) {
+      console.error("Gemini Image Gen Error:", error);
+      throw error;
+    }
+  };
+
+  return {
+    id: 'gemini',
+    generate: ({ prompt, aspectRatio, seed, mask }) => request(mask ? [{ text: prompt }, inlineImage(mask)] : [{ text: prompt }], { aspectRatio }, seed),
+    edit: ({ image, prompt, aspectRatio }) => request(
+      [inlineImage(image), { text: `Edit this image: ${prompt}. Keep everything else about it unchanged and do not add any text.` }],
+      { aspectRatio }
+    ),
+    // The mask rides along as a second image; the model is asked to leave everything outside it untouched
+    inpaint: ({ image, mask, prompt }) => request(
+      [inlineImage(image), inlineImage(mask), { text: `The second image is a black and white mask of the first. Repaint only the white area of the first image with: ${prompt}. Blend it seamlessly into the surroundings, keep everything in the black area exactly as it is, keep the image size and do not add any text.` }],
+      {}
+    ),
+    outpaint: async ({ image, aspectRatio, prompt }) => {
+      const padded = await padToAspect(image, aspectRatio);
+      return request(
+        [inlineImage(padded.image), inlineImage(padded.mask), { text: `The first image is a photo placed in the middle of a larger gray canvas; the second image is a mask where white marks the gray area. Extend the photo outward to fill the white area, continuing its scene, lighting and perspective naturally (${prompt}). Keep the original part unchanged and do not add any text or borders.` }],
+        { aspectRatio }
+      );
+    },
+    vary: ({ image, seed }) => request(
+      [inlineImage(image), { text: 'Create a close variation of this image: keep the same subject, composition, palette and mood, but vary the details, lighting and small elements. Do not add any text.' }],
+      {},
+      seed
+    ),
+    // Gemini has no dedicated upscaler; models with selectable output sizes redraw the image at 2K or 4K
+    upscale: ({ image, factor }) => request(
+      [inlineImage(image), { text: 'Reproduce this exact image at a higher resolution with finer detail. Do not change the composition, colors or content.' }],
+      { imageSize: factor === 4 ? '4K' : '2K' }
+    )
+  };
 };
@@ -0,0 +1,93 @@
+import { AspectRatio } from "../types";
+import { backgroundCrop, createCanvas, loadImage } from "./renderer";
+
+// One drag of the inpainting brush, in poster percentages so it survives canvas resizes
+export interface BrushStroke {
+  size: number; // brush diameter as a fraction of the poster width
+  points: { x: number; y: number }[];
+}
+
+export const aspectValue = (ratio: AspectRatio) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+const context = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  return ctx;
+};
+
+// Strokes as round-capped lines; a single tap leaves a dot
+export const paintStrokes = (ctx: CanvasRenderingContext2D, strokes: BrushStroke[], width: number, height: number, color: string) => {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  strokes.forEach(({ size, points }) => {
+    const diameter = size * width;
+    const at = (p: { x: number; y: number }) => ({ x: (p.x / 100) * width, y: (p.y / 100) * height });
+    if (points.length === 1) {
+      const p = at(points[0]);
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, diameter / 2, 0, Math.PI * 2);
+      ctx.fill();
+      return;
+    }
+    ctx.lineWidth = diameter;
+    ctx.beginPath();
+    points.map(at).forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+/**
+ * The brushed area as a black and white mask the size of the background image. Strokes are drawn on the
+ * poster, so they are mapped through the same crop the poster applies to the image.
+ */
+export const brushMask = async (strokes: BrushStroke[], background: string, posterRatio: number): Promise<string> => {
+  const image = await loadImage(background);
+  const crop = backgroundCrop(image, posterRatio);
+  const canvas = createCanvas(image.naturalWidth, image.naturalHeight);
+  const ctx = context(canvas);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(crop.x, crop.y);
+  paintStrokes(ctx, strokes, crop.w, crop.h, '#ffffff');
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Places the image unchanged in the middle of a larger canvas of the target ratio, for outpainting.
+ * Returns the padded image (new area filled with `fill`), a mask that is white where the model must paint,
+ * and where the original sits inside it.
+ */
+export const padToAspect = async (src: string, ratio: AspectRatio, fill = '#808080') => {
+  const source = await loadImage(src);
+  const { naturalWidth: iw, naturalHeight: ih } = source;
+  const target = aspectValue(ratio);
+  const width = Math.round(Math.max(iw, ih * target));
+  const height = Math.round(Math.max(ih, iw / target));
+  const placed = { x: Math.round((width - iw) / 2), y: Math.round((height - ih) / 2), w: iw, h: ih };
+
+  const padded = createCanvas(width, height);
+  const paddedCtx = context(padded);
+  paddedCtx.fillStyle = fill;
+  paddedCtx.fillRect(0, 0, width, height);
+  paddedCtx.drawImage(source, placed.x, placed.y);
+
+  const mask = createCanvas(width, height);
+  const maskCtx = context(mask);
+  maskCtx.fillStyle = '#ffffff';
+  maskCtx.fillRect(0, 0, width, height);
+  maskCtx.fillStyle = '#000000';
+  maskCtx.fillRect(placed.x, placed.y, iw, ih);
+
+  return { source, placed, width, height, image: padded.toDataURL('image/png'), mask: mask.toDataURL('image/png') };
+};
+
+// Whether an image already has (close enough to) the ratio, so extending it would add nothing
+export const matchesAspect = (width: number, height: number, ratio: AspectRatio) =>
+  Math.abs(width / height - aspectValue(ratio)) < 0.02;
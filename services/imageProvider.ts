@@ -0,0 +1,67 @@
+import { AspectRatio, ImageProviderId, ImageProviderSettings } from "../types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL, GEMINI_MODELS, hasGeminiKey } from "./gemini";
+import { createMockProvider } from "./mockProvider";
+
+export interface GenerateImageRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  seed?: number; // asks for a different image from the same prompt where the backend supports it
+  mask?: string; // data URL in the poster's shape; white marks areas to keep free of detail
+}
+
+export interface EditImageRequest {
+  image: string; // data URL
+  prompt: string;
+  aspectRatio: AspectRatio;
+}
+
+export interface InpaintImageRequest {
+  image: string; // data URL; the result keeps its size and ratio
+  mask: string; // data URL the size of the image; white marks the area to repaint
+  prompt: string; // what should appear in the masked area
+}
+
+export interface OutpaintImageRequest {
+  image: string; // data URL
+  aspectRatio: AspectRatio; // the wider or taller ratio to extend the image to, keeping the original in the middle
+  prompt: string; // the scene, so the new area continues it
+}
+
+export interface VaryImageRequest {
+  image: string; // data URL
+  seed: number; // each seed gives a different variation
+}
+
+export interface UpscaleImageRequest {
+  image: string; // data URL
+  factor: 2 | 4;
+}
+
+// Every method resolves to a data URL, so results drop straight into loadBackground
+export interface ImageProvider {
+  id: ImageProviderId;
+  generate: (request: GenerateImageRequest) => Promise<string>;
+  edit: (request: EditImageRequest) => Promise<string>;
+  inpaint: (request: InpaintImageRequest) => Promise<string>;
+  outpaint: (request: OutpaintImageRequest) => Promise<string>;
+  vary: (request: VaryImageRequest) => Promise<string>;
+  upscale: (request: UpscaleImageRequest) => Promise<string>;
+}
+
+export const IMAGE_PROVIDERS: { id: ImageProviderId; name: string; models: string[] }[] = [
+  { id: 'gemini', name: 'Google Gemini', models: GEMINI_MODELS },
+  { id: 'mock', name: 'Offline Mock', models: [] }
+];
+
+/**
+ * Settings for a fresh install: IMAGE_PROVIDER and IMAGE_MODEL from the build environment when set,
+ * otherwise Gemini if a key was built in and the offline mock if not.
+ */
+export const defaultImageProviderSettings = (): ImageProviderSettings => {
+  const provider = IMAGE_PROVIDERS.find(p => p.id === process.env.IMAGE_PROVIDER)?.id
+    ?? (hasGeminiKey() ? 'gemini' : 'mock');
+  return { provider, model: process.env.IMAGE_MODEL || DEFAULT_GEMINI_MODEL };
+};
+
+export const createImageProvider = (settings: ImageProviderSettings): ImageProvider =>
+  settings.provider === 'mock' ? createMockProvider() : createGeminiProvider(settings.model.trim() || DEFAULT_GEMINI_MODEL);
@@ -0,0 +1,172 @@
+import { AspectRatio, CampaignField, FormatLayout, LanguageVariant, PosterConfig, PosterLayer } from "../types";
+import { pickLayout } from "./formats";
+
+// Languages offered when adding a translation; codes double as file-name suffixes
+export const LANGUAGE_OPTIONS: { code: string; name: string }[] = [
+  { code: 'en', name: 'English' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'ur', name: 'Urdu' },
+  { code: 'fr', name: 'French' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'de', name: 'German' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'fa', name: 'Persian' },
+  { code: 'he', name: 'Hebrew' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ja', name: 'Japanese' }
+];
+
+export const TRANSLATABLE_FIELDS: CampaignField[] = ['brandName', 'eventName', 'duration', 'price', 'headline', 'subHeadline', 'ctaText'];
+
+export const languageName = (code: string) => LANGUAGE_OPTIONS.find(l => l.code === code)?.name ?? code.toUpperCase();
+
+export const createLanguage = (code: string, name = languageName(code)): LanguageVariant => ({
+  code, name, fields: {}, texts: {}, layouts: {}
+});
+
+export const findLanguage = (config: PosterConfig, code: string | null): LanguageVariant | undefined =>
+  code ? config.languages.find(l => l.code === code) : undefined;
+
+const badgeKey = (layerId: string, index: number) => `${layerId}:${index}`;
+
+const translateLayer = (layer: PosterLayer, variant: LanguageVariant, layout: FormatLayout | undefined): PosterLayer => {
+  const pos = layout?.[layer.id] ? { ...layer.pos, ...layout[layer.id] } : layer.pos;
+  switch (layer.type) {
+    case 'text':
+    case 'button':
+      return { ...layer, pos, text: variant.texts[layer.id] ?? layer.text };
+    case 'badge':
+      return { ...layer, pos, items: layer.items.map((item, i) => ({ ...item, text: variant.texts[badgeKey(layer.id, i)] ?? item.text })) };
+    default:
+      return pos === layer.pos ? layer : { ...layer, pos };
+  }
+};
+
+/**
+ * Returns the design with a translation's copy and, for the current format, its own placements.
+ * Expects a config already resolved to its format, so a language layout wins over the format's.
+ */
+export const resolveLanguage = (config: PosterConfig, code = config.activeLanguage): PosterConfig => {
+  const variant = findLanguage(config, code);
+  if (!variant) return code === config.activeLanguage ? config : { ...config, activeLanguage: code };
+  const layout = variant.layouts[config.aspectRatio];
+  return {
+    ...config,
+    ...variant.fields,
+    activeLanguage: variant.code,
+    layers: config.layers.map(l => translateLayer(l, variant, layout))
+  };
+};
+
+// Copy typed over the source language is recorded on the translation; the source layer keeps its own
+const recordText = (layer: PosterLayer, seen: PosterLayer, source: PosterLayer, texts: Record<string, string>): PosterLayer => {
+  if ((layer.type === 'text' || layer.type === 'button') && layer.type === seen.type && layer.type === source.type) {
+    if (layer.text !== seen.text) texts[layer.id] = layer.text;
+    return { ...layer, text: source.text };
+  }
+  if (layer.type === 'badge' && seen.type === 'badge' && source.type === 'badge') {
+    return {
+      ...layer,
+      items: layer.items.map((item, i) => {
+        if (seen.items[i] && item.text !== seen.items[i].text) texts[badgeKey(layer.id, i)] = item.text;
+        return source.items[i] ? { ...item, text: source.items[i].text } : item;
+      })
+    };
+  }
+  return layer;
+};
+
+/**
+ * Applies an edit made against the active translation back onto the design. Copy changes land on the
+ * translation, placements on its layout for this format when it has one; everything else is shared.
+ */
+export const commitLanguageEdit = (config: PosterConfig, update: (view: PosterConfig) => PosterConfig): PosterConfig => {
+  const view = resolveLanguage(config);
+  const next = update(view);
+  if (next === view) return config;
+  const variant = findLanguage(config, config.activeLanguage);
+  if (!variant) return next;
+
+  const fields = { ...variant.fields };
+  const sourceCopy: Partial<Record<CampaignField, string>> = {};
+  TRANSLATABLE_FIELDS.forEach(key => {
+    if (next[key] !== view[key]) fields[key] = next[key];
+    sourceCopy[key] = config[key];
+  });
+
+  const texts = { ...variant.texts };
+  const hasLayout = !!variant.layouts[config.aspectRatio];
+  const layout: FormatLayout = {};
+  const seenLayers = new Map(view.layers.map(l => [l.id, l]));
+  const sourceLayers = new Map(config.layers.map(l => [l.id, l]));
+  const layers = next.layers.map(layer => {
+    const seen = seenLayers.get(layer.id);
+    const source = sourceLayers.get(layer.id);
+    // A layer added while translating belongs to every language
+    if (!seen || !source) return layer;
+    const restored = recordText(layer, seen, source, texts);
+    if (!hasLayout) return restored;
+    layout[layer.id] = pickLayout(layer.pos);
+    return { ...restored, pos: { ...restored.pos, ...pickLayout(source.pos) } } as PosterLayer;
+  });
+
+  const updated: LanguageVariant = {
+    ...variant, fields, texts,
+    layouts: hasLayout ? { ...variant.layouts, [config.aspectRatio]: layout } : variant.layouts
+  };
+  return {
+    ...next,
+    ...sourceCopy,
+    layers,
+    activeLanguage: config.activeLanguage,
+    languages: next.languages.map(l => l.code === variant.code ? updated : l)
+  };
+};
+
+export const isCustomLanguageLayout = (config: PosterConfig, code: string, ratio: AspectRatio) =>
+  !!findLanguage(config, code)?.layouts[ratio];
+
+const updateLanguage = (config: PosterConfig, code: string, update: (variant: LanguageVariant) => LanguageVariant): PosterConfig => ({
+  ...config,
+  languages: config.languages.map(l => l.code === code ? update(l) : l)
+});
+
+// Gives a translation its own placements in one format, starting from the given layers
+export const customizeLanguageLayout = (config: PosterConfig, code: string, ratio: AspectRatio, layers: PosterLayer[]): PosterConfig =>
+  updateLanguage(config, code, variant => {
+    const layout: FormatLayout = {};
+    layers.forEach(l => { layout[l.id] = pickLayout(l.pos); });
+    return { ...variant, layouts: { ...variant.layouts, [ratio]: layout } };
+  });
+
+export const resetLanguageLayout = (config: PosterConfig, code: string, ratio: AspectRatio): PosterConfig =>
+  updateLanguage(config, code, variant => {
+    const { [ratio]: _removed, ...layouts } = variant.layouts;
+    return { ...variant, layouts };
+  });
+
+export const removeLanguage = (config: PosterConfig, code: string): PosterConfig => ({
+  ...config,
+  languages: config.languages.filter(l => l.code !== code),
+  activeLanguage: config.activeLanguage === code ? null : config.activeLanguage
+});
+
+/**
+ * How much of the copy the design actually shows has been translated: every field a visible layer is bound
+ * to, plus the text of visible unlinked layers.
+ */
+export const translationProgress = (config: PosterConfig, variant: LanguageVariant) => {
+  const keys = new Set<string>();
+  config.layers.forEach(layer => {
+    if (!layer.pos.visible) return;
+    if (layer.type === 'text' || layer.type === 'button') keys.add(layer.field ?? `text:${layer.id}`);
+    if (layer.type === 'badge') layer.items.forEach((item, i) => keys.add(item.field ?? `text:${badgeKey(layer.id, i)}`));
+  });
+  const done = [...keys].filter(key => key.startsWith('text:')
+    ? variant.texts[key.slice(5)] !== undefined
+    : variant.fields[key as CampaignField] !== undefined).length;
+  return { done, total: keys.size };
+};
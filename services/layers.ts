@@ -0,0 +1,163 @@
+import { AssetField, BadgeItem, ElementPos, LayerType, PosterConfig, PosterLayer, TextLayer, TextualLayer } from "../types";
+
+export const DEFAULT_ELEMENT_POS: ElementPos = { x: 50, y: 50, scale: 1.0, visible: true, bold: false, italic: false };
+
+export const LAYER_TYPE_LABELS: Record<LayerType, string> = {
+  text: 'Text',
+  image: 'Image',
+  shape: 'Shape',
+  badge: 'Badges',
+  button: 'Button'
+};
+
+export const createLayerId = () => `layer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createLayer = (type: LayerType, existing: PosterLayer[] = []): PosterLayer => {
+  const count = existing.filter(l => l.type === type).length + 1;
+  const base = { id: createLayerId(), name: `${LAYER_TYPE_LABELS[type]} ${count}`, pos: { ...DEFAULT_ELEMENT_POS } };
+
+  switch (type) {
+    case 'text':
+      return { ...base, type, text: 'New text', color: '#ffffff', fontSize: 0.05, align: 'center', maxWidth: 0.8, pos: { ...base.pos, bold: true } };
+    case 'image':
+      return { ...base, type, src: null, width: 0.25, pos: { ...base.pos, x: 40, y: 40 } };
+    case 'shape':
+      return { ...base, type, shape: 'rect', width: 0.3, height: 0.15, fill: 'rgba(37, 99, 235, 0.6)', radius: 0.02, pos: { ...base.pos, x: 35, y: 40 } };
+    case 'badge':
+      return {
+        ...base, type, color: '#ffffff', fontSize: 0.026,
+        items: [{ text: 'Badge', fill: 'rgba(0, 0, 0, 0.6)' }],
+        pos: { ...base.pos, x: 5, bold: true }
+      };
+    case 'button':
+      return { ...base, type, text: 'Learn More', color: '#ffffff', fill: '#2563eb', fontSize: 0.045, textTransform: 'uppercase', pos: { ...base.pos, bold: true } };
+  }
+};
+
+// Starting values when an effect is switched on in the layer panel; sizes are in ems
+export const TEXT_EFFECT_DEFAULTS: Required<Pick<TextLayer, 'stroke' | 'shadow' | 'glow' | 'plate'>> = {
+  stroke: { color: '#000000', width: 0.04 },
+  shadow: { color: '#000000', opacity: 0.5, blur: 0.25, x: 0, y: 0.05 },
+  glow: { color: '#3b82f6', opacity: 0.8, blur: 0.4 },
+  plate: { color: '#000000', opacity: 0.5, padding: 0.3, radius: 0.2 }
+};
+
+export const findLayer = (config: PosterConfig, id: string | null): PosterLayer | undefined =>
+  id ? config.layers.find(l => l.id === id) : undefined;
+
+export const updateLayer = <T extends PosterLayer>(config: PosterConfig, id: string, patch: Partial<T>): PosterConfig => ({
+  ...config,
+  layers: config.layers.map(l => l.id === id ? { ...l, ...patch } as PosterLayer : l)
+});
+
+export const updateLayerPos = (config: PosterConfig, id: string, patch: Partial<ElementPos>): PosterConfig => ({
+  ...config,
+  layers: config.layers.map(l => l.id === id ? { ...l, pos: { ...l.pos, ...patch } } : l)
+});
+
+// Shows the image layers that draw `field`, e.g. once a QR image or link has been supplied
+export const revealAssetLayers = (config: PosterConfig, field: AssetField): PosterConfig => ({
+  ...config,
+  layers: config.layers.map(l => l.type === 'image' && l.assetField === field ? { ...l, pos: { ...l.pos, visible: true } } : l)
+});
+
+export const addLayer = (config: PosterConfig, layer: PosterLayer): PosterConfig => ({
+  ...config,
+  layers: [...config.layers, layer]
+});
+
+export const removeLayer = (config: PosterConfig, id: string): PosterConfig => ({
+  ...config,
+  layers: config.layers.filter(l => l.id !== id)
+});
+
+// Positive steps bring a layer forward (towards the top of the stack)
+export const moveLayer = (config: PosterConfig, id: string, step: number): PosterConfig => {
+  const from = config.layers.findIndex(l => l.id === id);
+  const to = Math.max(0, Math.min(config.layers.length - 1, from + step));
+  if (from < 0 || from === to) return config;
+  const layers = [...config.layers];
+  const [layer] = layers.splice(from, 1);
+  layers.splice(to, 0, layer);
+  return { ...config, layers };
+};
+
+export const resolveText = (config: PosterConfig, source: { text: string; field?: BadgeItem['field'] }): string =>
+  source.field ? config[source.field] : source.text;
+
+export const resolveImageSrc = (config: PosterConfig, layer: PosterLayer): string | null => {
+  if (layer.type !== 'image') return null;
+  return layer.assetField ? config[layer.assetField] : layer.src;
+};
+
+export const isTextual = (layer: PosterLayer): layer is TextualLayer => layer.type === 'text' || layer.type === 'badge' || layer.type === 'button';
+
+// Clicking any member of a group selects the whole group
+export const expandGroups = (config: PosterConfig, ids: string[]): string[] => {
+  const groups = new Set(config.layers.filter(l => ids.includes(l.id) && l.groupId).map(l => l.groupId));
+  return config.layers.filter(l => ids.includes(l.id) || (l.groupId && groups.has(l.groupId))).map(l => l.id);
+};
+
+export const groupLayers = (config: PosterConfig, ids: string[]): PosterConfig => {
+  if (ids.length < 2) return config;
+  const groupId = `group-${Date.now().toString(36)}`;
+  return { ...config, layers: config.layers.map(l => ids.includes(l.id) ? { ...l, groupId } : l) };
+};
+
+export const ungroupLayers = (config: PosterConfig, ids: string[]): PosterConfig => ({
+  ...config,
+  layers: config.layers.map(l => ids.includes(l.id) ? { ...l, groupId: undefined } : l)
+});
+
+export const updateLayersPos = (config: PosterConfig, ids: string[], patch: (pos: ElementPos) => Partial<ElementPos>): PosterConfig => ({
+  ...config,
+  layers: config.layers.map(l => ids.includes(l.id) ? { ...l, pos: { ...l.pos, ...patch(l.pos) } } : l)
+});
+
+const TYPOGRAPHY_KEYS = ['fontFamily', 'fontWeight', 'letterSpacing', 'textTransform', 'direction'];
+
+// Appearance properties that copy between layers; content, placement and identity never do
+const STYLE_KEYS: Record<LayerType, string[]> = {
+  text: ['color', 'fontSize', 'align', 'lineHeight', 'gradient', 'stroke', 'shadow', 'glow', 'plate', ...TYPOGRAPHY_KEYS],
+  button: ['color', 'fill', 'fontSize', ...TYPOGRAPHY_KEYS],
+  badge: ['color', 'fontSize', ...TYPOGRAPHY_KEYS],
+  shape: ['fill', 'radius'],
+  image: ['backdrop']
+};
+const POS_STYLE_KEYS = ['bold', 'italic'] as const;
+
+export interface LayerStyle {
+  props: Record<string, unknown>;
+  pos: Partial<ElementPos>;
+  fills?: string[]; // badge item fills
+}
+
+export const extractStyle = (layer: PosterLayer): LayerStyle => {
+  const source = layer as unknown as Record<string, unknown>;
+  const props: Record<string, unknown> = {};
+  STYLE_KEYS[layer.type].forEach(key => { props[key] = source[key]; });
+  const pos: Partial<ElementPos> = {};
+  POS_STYLE_KEYS.forEach(key => { pos[key] = layer.pos[key]; });
+  return { props, pos, fills: layer.type === 'badge' ? layer.items.map(i => i.fill) : undefined };
+};
+
+// Only properties the target layer type understands are applied
+export const applyStyle = (layer: PosterLayer, style: LayerStyle): PosterLayer => {
+  const target = { ...layer } as unknown as Record<string, unknown>;
+  STYLE_KEYS[layer.type].forEach(key => { if (key in style.props) target[key] = style.props[key]; });
+  if (isTextual(layer)) target.pos = { ...layer.pos, ...style.pos };
+  if (layer.type === 'badge' && style.fills?.length) {
+    const fills = style.fills;
+    target.items = layer.items.map((item, i) => ({ ...item, fill: fills[i % fills.length] }));
+  }
+  if (layer.type === 'badge' && !style.fills && typeof style.props.fill === 'string') {
+    const fill = style.props.fill;
+    target.items = layer.items.map(item => ({ ...item, fill }));
+  }
+  return target as unknown as PosterLayer;
+};
+
+export const pasteStyle = (config: PosterConfig, ids: string[], style: LayerStyle): PosterConfig => ({
+  ...config,
+  layers: config.layers.map(l => ids.includes(l.id) ? applyStyle(l, style) : l)
+});
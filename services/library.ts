@@ -0,0 +1,154 @@
+import { BrandKit, ImageProviderSettings, LibraryDesign } from "../types";
+import { upgradeLayers } from "./project";
+import { normalizeStylePreset } from "./prompts";
+
+// Designs embed logo, QR and background data URLs, which easily exceed the
+// localStorage quota, so the library lives in IndexedDB instead.
+const DB_NAME = 'aaiena-studio';
+const DB_VERSION = 2;
+const DESIGNS_STORE = 'designs';
+const META_STORE = 'meta';
+const BRANDS_STORE = 'brandKits';
+const LAST_DESIGN_KEY = 'lastDesignId';
+const IMAGE_PROVIDER_KEY = 'imageProvider';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DESIGNS_STORE)) {
+          db.createObjectStore(DESIGNS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        if (!db.objectStoreNames.contains(BRANDS_STORE)) {
+          db.createObjectStore(BRANDS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createDesignId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `design-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listDesigns = async (): Promise<LibraryDesign[]> => {
+  const designs = await run<LibraryDesign[]>(DESIGNS_STORE, 'readonly', store => store.getAll());
+  return designs.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getDesign = (id: string): Promise<LibraryDesign | undefined> =>
+  run<LibraryDesign | undefined>(DESIGNS_STORE, 'readonly', store => store.get(id));
+
+export const saveDesign = async (design: LibraryDesign): Promise<void> => {
+  await run(DESIGNS_STORE, 'readwrite', store => store.put(design));
+};
+
+export const deleteDesign = async (id: string): Promise<void> => {
+  await run(DESIGNS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const renameDesign = async (id: string, name: string): Promise<void> => {
+  const design = await getDesign(id);
+  if (!design) return;
+  await saveDesign({ ...design, name, project: { ...design.project, name } });
+};
+
+export const duplicateDesign = async (id: string): Promise<LibraryDesign | undefined> => {
+  const design = await getDesign(id);
+  if (!design) return undefined;
+  const now = new Date().toISOString();
+  const name = `${design.name} (Copy)`;
+  const copy: LibraryDesign = {
+    ...design,
+    id: createDesignId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    project: { ...design.project, name }
+  };
+  await saveDesign(copy);
+  return copy;
+};
+
+export const getLastDesignId = (): Promise<string | undefined> =>
+  run<string | undefined>(META_STORE, 'readonly', store => store.get(LAST_DESIGN_KEY));
+
+export const setLastDesignId = async (id: string): Promise<void> => {
+  await run(META_STORE, 'readwrite', store => store.put(id, LAST_DESIGN_KEY));
+};
+
+export const getImageProviderSettings = (): Promise<ImageProviderSettings | undefined> =>
+  run<ImageProviderSettings | undefined>(META_STORE, 'readonly', store => store.get(IMAGE_PROVIDER_KEY));
+
+export const saveImageProviderSettings = async (settings: ImageProviderSettings): Promise<void> => {
+  await run(META_STORE, 'readwrite', store => store.put(settings, IMAGE_PROVIDER_KEY));
+};
+
+// Kits carry no schema version, so their default layers and prompt styles are brought up to date on every read
+const upgradeBrandKit = (kit: BrandKit): BrandKit => {
+  const defaults = { ...kit.defaults };
+  if (defaults.layers) defaults.layers = upgradeLayers(defaults.layers);
+  if (defaults.promptStyle) defaults.promptStyle = normalizeStylePreset(defaults.promptStyle);
+  return { ...kit, stylePresets: kit.stylePresets?.map(normalizeStylePreset), defaults };
+};
+
+// Brand kits sit next to the designs; logos are usually data URLs too
+export const listBrandKits = async (): Promise<BrandKit[]> => {
+  const kits = await run<BrandKit[]>(BRANDS_STORE, 'readonly', store => store.getAll());
+  return kits.map(upgradeBrandKit).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveBrandKit = async (kit: BrandKit): Promise<void> => {
+  await run(BRANDS_STORE, 'readwrite', store => store.put(kit));
+};
+
+export const deleteBrandKit = async (id: string): Promise<void> => {
+  await run(BRANDS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const createThumbnail = (source: HTMLCanvasElement, width = 240): string | null => {
+  if (!source.width || !source.height) return null;
+  const thumb = document.createElement('canvas');
+  thumb.width = width;
+  thumb.height = Math.round((source.height / source.width) * width);
+  const ctx = thumb.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, thumb.width, thumb.height);
+  try {
+    return thumb.toDataURL('image/jpeg', 0.7);
+  } catch {
+    // A cross-origin logo without CORS headers taints the canvas
+    return null;
+  }
+};
@@ -0,0 +1,209 @@
+import { AspectRatio } from "../types";
+import { padToAspect } from "./imageEditing";
+import type { ImageProvider } from "./imageProvider";
+import { createCanvas, loadImage } from "./renderer";
+
+// The pixel sizes Gemini returns for each ratio, so mock images exercise the same cropping and scaling
+const MOCK_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  [AspectRatio.SQUARE]: { width: 1024, height: 1024 },
+  [AspectRatio.STORY]: { width: 768, height: 1344 },
+  [AspectRatio.LANDSCAPE]: { width: 1344, height: 768 },
+  [AspectRatio.LINKEDIN]: { width: 1184, height: 864 }
+};
+
+// FNV-1a, so the same prompt always seeds the same picture
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and identical on every platform
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const context = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  return ctx;
+};
+
+// Soft glowing blobs, kept mostly between 20% and 60% of the height like the real prompt asks for
+const paintBlobs = (ctx: CanvasRenderingContext2D, width: number, height: number, hue: number, count: number, random: () => number) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'lighter';
+  for (let i = 0; i < count; i++) {
+    const x = random() * width;
+    const y = height * (0.2 + random() * 0.4);
+    const r = Math.max(width, height) * (0.12 + random() * 0.25);
+    const blobHue = Math.round(hue + random() * 120 - 60);
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, r);
+    gradient.addColorStop(0, `hsla(${blobHue}, 85%, 60%, ${(0.25 + random() * 0.3).toFixed(2)})`);
+    gradient.addColorStop(1, `hsla(${blobHue}, 85%, 60%, 0)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.restore();
+};
+
+const paintGrain = (ctx: CanvasRenderingContext2D, width: number, height: number, random: () => number) => {
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const n = (random() - 0.5) * 18;
+    data[i] += n;
+    data[i + 1] += n;
+    data[i + 2] += n;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+// Dims the image where the mask is white, the way a real model leaves text areas calm
+const darkenMasked = async (ctx: CanvasRenderingContext2D, width: number, height: number, mask: string) => {
+  const maskCanvas = createCanvas(width, height);
+  const maskCtx = context(maskCanvas);
+  maskCtx.filter = 'blur(24px)';
+  maskCtx.drawImage(await loadImage(mask), 0, 0, width, height);
+  const coverage = maskCtx.getImageData(0, 0, width, height).data;
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const keep = 1 - 0.7 * (coverage[i] / 255);
+    data[i] *= keep;
+    data[i + 1] *= keep;
+    data[i + 2] *= keep;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+// Draws `layer` over the canvas only where the (softened) mask is white
+const blendMasked = async (ctx: CanvasRenderingContext2D, layer: HTMLCanvasElement, mask: string) => {
+  const { width, height } = layer;
+  const maskCanvas = createCanvas(width, height);
+  const maskCtx = context(maskCanvas);
+  maskCtx.filter = 'blur(8px)';
+  maskCtx.drawImage(await loadImage(mask), 0, 0, width, height);
+  const coverage = maskCtx.getImageData(0, 0, width, height).data;
+  const top = context(layer).getImageData(0, 0, width, height).data;
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const a = coverage[i] / 255;
+    data[i] += (top[i] - data[i]) * a;
+    data[i + 1] += (top[i + 1] - data[i + 1]) * a;
+    data[i + 2] += (top[i + 2] - data[i + 2]) * a;
+  }
+  ctx.putImageData(image, 0, 0);
+};
+
+const toDataUrl = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/jpeg', 0.92);
+
+/**
+ * Offline stand-in for a real image model: procedural gradients, glows and grain derived from the
+ * prompt, so the same request always returns the same image without a key or network.
+ */
+export const createMockProvider = (): ImageProvider => ({
+  id: 'mock',
+
+  generate: async ({ prompt, aspectRatio, seed = 0, mask }) => {
+    const random = seededRandom(hashString(`${prompt}|${aspectRatio}|${seed}`));
+    const { width, height } = MOCK_SIZES[aspectRatio];
+    const canvas = createCanvas(width, height);
+    const ctx = context(canvas);
+    const hue = Math.round(random() * 360);
+    const sky = ctx.createLinearGradient(0, 0, 0, height);
+    sky.addColorStop(0, `hsl(${hue}, 55%, 10%)`);
+    sky.addColorStop(0.45, `hsl(${hue + 25}, 60%, 18%)`);
+    sky.addColorStop(1, `hsl(${hue + 50}, 65%, 5%)`);
+    ctx.fillStyle = sky;
+    ctx.fillRect(0, 0, width, height);
+    paintBlobs(ctx, width, height, hue, 4 + Math.floor(random() * 4), random);
+    if (mask) await darkenMasked(ctx, width, height, mask);
+    paintGrain(ctx, width, height, random);
+    return toDataUrl(canvas);
+  },
+
+  // Covers the requested ratio with the source and tints it from the instruction, so edits visibly change
+  edit: async ({ image, prompt, aspectRatio }) => {
+    const random = seededRandom(hashString(`${prompt}|${aspectRatio}|edit`));
+    const source = await loadImage(image);
+    const { width, height } = MOCK_SIZES[aspectRatio];
+    const canvas = createCanvas(width, height);
+    const ctx = context(canvas);
+    const scale = Math.max(width / source.width, height / source.height);
+    ctx.drawImage(source, (width - source.width * scale) / 2, (height - source.height * scale) / 2, source.width * scale, source.height * scale);
+    const hue = Math.round(random() * 360);
+    ctx.save();
+    ctx.globalCompositeOperation = 'soft-light';
+    ctx.fillStyle = `hsla(${hue}, 70%, 50%, 0.6)`;
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+    paintBlobs(ctx, width, height, hue, 2, random);
+    return toDataUrl(canvas);
+  },
+
+  // Repaints the masked area with a hue-shifted, glowing copy of the source so the change is easy to spot
+  inpaint: async ({ image, mask, prompt }) => {
+    const random = seededRandom(hashString(`${prompt}|inpaint`));
+    const source = await loadImage(image);
+    const { width, height } = source;
+    const canvas = createCanvas(width, height);
+    const ctx = context(canvas);
+    ctx.drawImage(source, 0, 0);
+    const layer = createCanvas(width, height);
+    const layerCtx = context(layer);
+    const hue = Math.round(random() * 360);
+    layerCtx.filter = `hue-rotate(${hue}deg) blur(6px)`;
+    layerCtx.drawImage(source, 0, 0);
+    layerCtx.filter = 'none';
+    paintBlobs(layerCtx, width, height, hue, 3, random);
+    await blendMasked(ctx, layer, mask);
+    paintGrain(ctx, width, height, random);
+    return toDataUrl(canvas);
+  },
+
+  // Fills the new area with a blurred, stretched copy of the source, like a cheap content-aware fill
+  outpaint: async ({ image, aspectRatio, prompt }) => {
+    const random = seededRandom(hashString(`${prompt}|${aspectRatio}|outpaint`));
+    const { source, placed, width, height } = await padToAspect(image, aspectRatio);
+    const canvas = createCanvas(width, height);
+    const ctx = context(canvas);
+    ctx.filter = 'blur(32px)';
+    ctx.drawImage(source, 0, 0, width, height);
+    ctx.filter = 'none';
+    ctx.drawImage(source, placed.x, placed.y);
+    paintGrain(ctx, width, height, random);
+    return toDataUrl(canvas);
+  },
+
+  vary: async ({ image, seed }) => {
+    const random = seededRandom(hashString(`${image.length}|${image.slice(-64)}|${seed}`));
+    const source = await loadImage(image);
+    const { width, height } = source;
+    const canvas = createCanvas(width, height);
+    const ctx = context(canvas);
+    ctx.filter = `hue-rotate(${Math.round(random() * 60 - 30)}deg) saturate(${(0.8 + random() * 0.5).toFixed(2)})`;
+    ctx.drawImage(source, 0, 0);
+    ctx.filter = 'none';
+    paintBlobs(ctx, width, height, Math.round(random() * 360), 2, random);
+    paintGrain(ctx, width, height, random);
+    return toDataUrl(canvas);
+  },
+
+  upscale: async ({ image, factor }) => {
+    const source = await loadImage(image);
+    const canvas = createCanvas(source.width * factor, source.height * factor);
+    const ctx = context(canvas);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return toDataUrl(canvas);
+  }
+});
@@ -0,0 +1,41 @@
+import { isTextual } from "./layers";
+import { axisAlignedBounds, Box, layoutText, measureLayer, RenderSurface, safeZone } from "./renderer";
+
+export type LayoutIssue = 'offCanvas' | 'outsideSafeZone' | 'truncated';
+
+export interface LayoutWarning {
+  layerId: string;
+  layer: string;
+  issue: LayoutIssue;
+}
+
+export const LAYOUT_ISSUE_LABELS: Record<LayoutIssue, string> = {
+  offCanvas: 'Runs off the poster',
+  outsideSafeZone: 'Outside the safe zone',
+  truncated: 'Text cut off at its line limit'
+};
+
+// Half a pixel of slack so layers placed exactly on an edge don't warn from rounding
+const contains = (outer: Box, inner: Box) =>
+  inner.x >= outer.x - 0.5 && inner.y >= outer.y - 0.5
+  && inner.x + inner.w <= outer.x + outer.w + 0.5 && inner.y + inner.h <= outer.y + outer.h + 0.5;
+
+/**
+ * Text, badge and button layers that leave the poster or its safe zone, or whose text was cut short.
+ * Images and shapes are left out since bleeding them off the edge is usually deliberate.
+ */
+export const layoutWarnings = (surface: RenderSurface): LayoutWarning[] => {
+  const { width, height, config } = surface;
+  const poster: Box = { x: 0, y: 0, w: width, h: height };
+  const safe = safeZone(config.aspectRatio, width, height);
+  const warnings: LayoutWarning[] = [];
+  config.layers.filter(isTextual).forEach(layer => {
+    if (!layer.pos.visible) return;
+    const add = (issue: LayoutIssue) => warnings.push({ layerId: layer.id, layer: layer.name, issue });
+    const bounds = axisAlignedBounds(measureLayer(surface, layer));
+    if (!contains(poster, bounds)) add('offCanvas');
+    else if (!contains(safe, bounds)) add('outsideSafeZone');
+    if (layer.type === 'text' && layoutText(surface, layer).truncated) add('truncated');
+  });
+  return warnings;
+};
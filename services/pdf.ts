@@ -0,0 +1,66 @@
+export interface PdfImagePage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  // Page size in points (1/72 inch), including bleed
+  pageWidth: number;
+  pageHeight: number;
+  // Distance from the page edge to the trim line, in points
+  bleed: number;
+  title?: string;
+}
+
+const escapePdfText = (value: string) => value.replace(/[\\()]/g, c => `\\${c}`).replace(/[^\x20-\x7e]/g, '?');
+
+const pt = (value: number) => Number(value.toFixed(2));
+
+/**
+ * Writes a single-page PDF holding one full-bleed JPEG. TrimBox and BleedBox are set so
+ * print workflows know where to cut.
+ */
+export const createImagePdf = ({ jpeg, pixelWidth, pixelHeight, pageWidth, pageHeight, bleed, title }: PdfImagePage): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  const w = pt(pageWidth);
+  const h = pt(pageHeight);
+  const b = pt(bleed);
+  const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q\n`;
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, '<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  object(3, [
+    `<< /Type /Page /Parent 2 0 R`,
+    `/MediaBox [0 0 ${w} ${h}] /BleedBox [0 0 ${w} ${h}]`,
+    `/TrimBox [${b} ${b} ${pt(pageWidth - bleed)} ${pt(pageHeight - bleed)}]`,
+    `/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`
+  ].join(' '));
+
+  offsets[4] = length;
+  write(`4 0 obj\n<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+  write(jpeg);
+  write('\nendstream\nendobj\n');
+
+  object(5, `<< /Length ${content.length} >>\nstream\n${content}endstream`);
+  object(6, `<< /Title (${escapePdfText(title ?? 'Poster')}) /Producer (Aaiena Design Studio) >>`);
+
+  const xref = length;
+  write(`xref\n0 7\n0000000000 65535 f \n`);
+  for (let id = 1; id <= 6; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size 7 /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
@@ -0,0 +1,207 @@
+import {
+  DEFAULT_POSTER_CONFIG, ElementPos, GeneratedBackground, PosterConfig, PosterLayer, PosterProject, ProjectAsset, StylePreset, TextShadow
+} from "../types";
+import { DEFAULT_ELEMENT_POS } from "./layers";
+import { normalizeStylePreset } from "./prompts";
+
+export const PROJECT_FORMAT = 'aaiena-poster-project';
+export const PROJECT_SCHEMA_VERSION = 4;
+export const PROJECT_FILE_EXTENSION = '.aaiena.json';
+
+// A project object as read from a file, before it has been checked or upgraded
+type RawProject = Record<string, unknown>;
+
+// Layer fields older schema versions stored and later ones replaced
+type LegacyLayer = PosterLayer & { uppercase?: boolean; shadow?: boolean | TextShadow };
+
+// v2 only knew an `uppercase` flag; v3 has a full text transform
+const upgradeTextTransform = ({ uppercase, ...layer }: LegacyLayer): LegacyLayer =>
+  (uppercase ? { ...layer, textTransform: 'uppercase' } : layer) as LegacyLayer;
+
+// v3 text had an on/off shadow of a fixed 20px blur at 1080px wide; v4 shadows are configurable and sized in ems.
+// Shadows already in the v4 shape are kept, so layers of unknown age can go through this too
+const upgradeShadow = ({ shadow, ...layer }: LegacyLayer): LegacyLayer => {
+  if (shadow && typeof shadow === 'object') return { ...layer, shadow } as LegacyLayer;
+  if (layer.type !== 'text' || !shadow) return layer as LegacyLayer;
+  const blur = Number(((20 / 1080) / (layer.fontSize || 0.05)).toFixed(2));
+  return { ...layer, shadow: { color: '#000000', opacity: 0.5, blur, x: 0, y: 0 } } as LegacyLayer;
+};
+
+const rawConfig = (raw: RawProject): RawProject => ({ ...(raw.config as RawProject | undefined) });
+
+const rawLayers = (config: RawProject): LegacyLayer[] | null =>
+  Array.isArray(config.layers) ? config.layers as LegacyLayer[] : null;
+
+// Each entry upgrades a raw project object from version `n` to `n + 1`.
+// Version 0 is a bare PosterConfig dump without the project envelope.
+const MIGRATIONS: Record<number, (raw: RawProject) => RawProject> = {
+  0: (raw) => ({
+    format: PROJECT_FORMAT,
+    schemaVersion: 1,
+    name: raw.eventName || 'Untitled Poster',
+    savedAt: new Date(0).toISOString(),
+    config: raw,
+    assets: { background: null }
+  }),
+  // v1 stored eight fixed pos* fields plus flat colors; v2 moves them onto a layer list
+  1: (raw) => {
+    const old = rawConfig(raw);
+    const legacy = <T>(key: string) => old[key] as T | undefined;
+    const layers = DEFAULT_POSTER_CONFIG.layers.map((layer): PosterLayer => {
+      const source = V1_LAYER_SOURCES[layer.id];
+      const pos = { ...layer.pos, ...legacy<Partial<ElementPos>>(source.pos) };
+      switch (layer.type) {
+        case 'badge':
+          return {
+            ...layer, pos,
+            color: legacy<string>('colorBadges') ?? layer.color,
+            items: layer.items.map((item, i) => ({ ...item, fill: legacy<string>(`bgColorBadge${i + 1}`) ?? item.fill }))
+          };
+        case 'button':
+          return { ...layer, pos, color: legacy<string>('colorCTA') ?? layer.color, fill: legacy<string>('bgColorCTA') ?? layer.fill };
+        case 'text':
+          return { ...layer, pos, color: (source.color && legacy<string>(source.color)) ?? layer.color };
+        default:
+          return { ...layer, pos };
+      }
+    });
+    V1_REMOVED_FIELDS.forEach(key => delete old[key]);
+    return { ...raw, schemaVersion: 2, config: { ...old, layers } };
+  },
+  2: (raw) => {
+    const config = rawConfig(raw);
+    const layers = rawLayers(config);
+    if (layers) config.layers = layers.map(upgradeTextTransform);
+    return { ...raw, schemaVersion: 3, config };
+  },
+  3: (raw) => {
+    const config = rawConfig(raw);
+    const layers = rawLayers(config);
+    if (layers) config.layers = layers.map(upgradeShadow);
+    return { ...raw, schemaVersion: 4, config };
+  }
+};
+
+const V1_LAYER_SOURCES: Record<string, { pos: string; color?: string }> = {
+  logo: { pos: 'posLogo' },
+  brand: { pos: 'posBrand', color: 'colorBrand' },
+  event: { pos: 'posEventName', color: 'colorEvent' },
+  badges: { pos: 'posBadges' },
+  headline: { pos: 'posHeadline', color: 'colorHeadline' },
+  subHeadline: { pos: 'posSubHeadline', color: 'colorSubHeadline' },
+  qr: { pos: 'posQR' },
+  cta: { pos: 'posCTA' }
+};
+
+const V1_REMOVED_FIELDS = [
+  'posLogo', 'posBrand', 'posEventName', 'posBadges', 'posHeadline', 'posSubHeadline', 'posCTA', 'posQR',
+  'colorBrand', 'colorEvent', 'colorHeadline', 'colorSubHeadline', 'colorCTA', 'bgColorCTA',
+  'colorBadges', 'bgColorBadge1', 'bgColorBadge2'
+];
+
+// Fill any field the file predates with its default, including missing keys inside each layer's position
+// and the prompt style's composition
+export const normalizeConfig = (raw: Partial<PosterConfig>): PosterConfig => {
+  const config = { ...DEFAULT_POSTER_CONFIG } as Record<string, unknown>;
+  (Object.keys(DEFAULT_POSTER_CONFIG) as (keyof PosterConfig)[]).forEach(key => {
+    if (raw[key] !== undefined) config[key] = raw[key];
+  });
+  const layers = Array.isArray(raw.layers) ? raw.layers : DEFAULT_POSTER_CONFIG.layers;
+  config.layers = layers.map(layer => ({ ...layer, pos: { ...DEFAULT_ELEMENT_POS, ...layer.pos } }));
+  config.promptStyle = normalizeStylePreset(config.promptStyle as StylePreset);
+  return config as unknown as PosterConfig;
+};
+
+/**
+ * Brings layers saved by any schema version to the current shape. For layers kept outside project files,
+ * such as brand kit defaults, which carry no schema version of their own.
+ */
+export const upgradeLayers = (layers: PosterLayer[]): PosterLayer[] =>
+  (layers as LegacyLayer[]).map(layer => ({
+    ...upgradeShadow(upgradeTextTransform(layer)),
+    pos: { ...DEFAULT_ELEMENT_POS, ...layer.pos }
+  }));
+
+export const toProjectAsset = (src: string | null | undefined): ProjectAsset | null => {
+  if (!src) return null;
+  return src.startsWith('data:') ? { kind: 'embedded', dataUrl: src } : { kind: 'url', url: src };
+};
+
+export const resolveProjectAsset = (asset: ProjectAsset | null): string | null => {
+  if (!asset) return null;
+  return asset.kind === 'embedded' ? asset.dataUrl : asset.url;
+};
+
+export const createProject = (
+  config: PosterConfig,
+  backgroundSrc: string | null,
+  name: string = config.eventName || 'Untitled Poster',
+  backgroundHistory: GeneratedBackground[] = []
+): PosterProject => ({
+  format: PROJECT_FORMAT,
+  schemaVersion: PROJECT_SCHEMA_VERSION,
+  name,
+  savedAt: new Date().toISOString(),
+  config,
+  assets: {
+    background: toProjectAsset(backgroundSrc),
+    backgroundHistory
+  }
+});
+
+export const parseProject = (json: string): PosterProject => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Project file is not valid JSON.");
+  }
+  return upgradeProject(raw);
+};
+
+// Brings a project object of any known schema version up to the current one
+export const upgradeProject = (input: unknown): PosterProject => {
+  if (!input || typeof input !== 'object') {
+    throw new Error("Project file is empty or malformed.");
+  }
+  let raw = input as RawProject;
+
+  let version = raw.format === PROJECT_FORMAT ? Number(raw.schemaVersion) || 0 : 0;
+  if (version === 0 && !('aspectRatio' in raw)) {
+    throw new Error("File is not an Aaiena poster project.");
+  }
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project was saved by a newer version of the studio (schema v${version}).`);
+  }
+
+  while (version < PROJECT_SCHEMA_VERSION) {
+    raw = MIGRATIONS[version](raw);
+    version = Number(raw.schemaVersion);
+  }
+
+  const assets = { ...(raw.assets as Partial<PosterProject['assets']> | undefined) };
+  return {
+    format: PROJECT_FORMAT,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    name: String(raw.name || 'Untitled Poster'),
+    savedAt: String(raw.savedAt || new Date().toISOString()),
+    config: normalizeConfig(rawConfig(raw) as Partial<PosterConfig>),
+    assets: {
+      background: assets.background ?? null,
+      backgroundHistory: Array.isArray(assets.backgroundHistory) ? assets.backgroundHistory : []
+    }
+  };
+};
+
+export const readProjectFile = async (file: File): Promise<PosterProject> => parseProject(await file.text());
+
+export const downloadProject = (project: PosterProject) => {
+  const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const slug = project.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'poster';
+  const link = document.createElement('a');
+  link.download = `${slug}${PROJECT_FILE_EXTENSION}`;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
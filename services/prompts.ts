@@ -0,0 +1,101 @@
+import { DEFAULT_STYLE_PRESET, LayoutGuidance, PromptComposition, StylePreset, SubjectPlacement } from "../types";
+import { createBrandItemId } from "./brand";
+
+export const SCENE_PLACEHOLDER = '{scene}';
+
+export const STYLE_PRESETS: StylePreset[] = [
+  DEFAULT_STYLE_PRESET,
+  {
+    id: 'minimal-corporate',
+    name: 'Minimal Corporate',
+    template: "Clean, minimal background for a corporate event poster.\nScene: {scene}.\nStyle: calm and professional, muted neutral palette with one accent color, soft daylight, lots of breathing room.",
+    negativePrompt: 'clutter, neon, heavy saturation, busy patterns',
+    composition: { clearTop: 0.25, clearBottom: 0.4, subject: 'right', layoutGuidance: 'text' }
+  },
+  {
+    id: 'festival',
+    name: 'Festival',
+    template: "Vibrant background for a music or cultural festival poster.\nScene: {scene}.\nStyle: energetic and joyful, saturated colors, stage lights, confetti and motion, warm evening atmosphere.",
+    negativePrompt: 'corporate office, muted colors, empty rooms',
+    composition: { clearTop: 0.2, clearBottom: 0.35, subject: 'center', layoutGuidance: 'text' }
+  },
+  {
+    id: 'academic',
+    name: 'Academic',
+    template: "Refined background for a lecture, conference or university event poster.\nScene: {scene}.\nStyle: scholarly and trustworthy, library or campus textures, natural light, deep blues and warm wood tones.",
+    negativePrompt: 'party lights, neon, cartoon style',
+    composition: { clearTop: 0.2, clearBottom: 0.4, subject: 'any', layoutGuidance: 'text' }
+  }
+];
+
+export const SUBJECT_PLACEMENT_LABELS: Record<SubjectPlacement, string> = {
+  any: 'Any',
+  center: 'Center',
+  left: 'Left',
+  right: 'Right'
+};
+
+export const LAYOUT_GUIDANCE_LABELS: Record<LayoutGuidance, string> = {
+  off: 'Off',
+  text: 'Describe',
+  mask: 'Describe + Mask'
+};
+
+// Fills composition options a preset was saved without, e.g. layout guidance on designs and kits older than it
+export const normalizeStylePreset = (style: StylePreset): StylePreset => ({
+  ...style,
+  composition: { ...DEFAULT_STYLE_PRESET.composition, ...style.composition }
+});
+
+export const findPreset = (presets: StylePreset[], id: string) => presets.find(p => p.id === id);
+
+// True once the design's copy of a preset has been edited away from the saved one
+export const isPresetModified = (style: StylePreset, presets: StylePreset[]) => {
+  const preset = findPreset(presets, style.id);
+  if (!preset) return true;
+  const a = preset.composition;
+  const b = style.composition;
+  return preset.template !== style.template || preset.negativePrompt !== style.negativePrompt
+    || a.clearTop !== b.clearTop || a.clearBottom !== b.clearBottom || a.subject !== b.subject
+    || a.layoutGuidance !== b.layoutGuidance;
+};
+
+export const createStylePreset = (name: string, style: StylePreset): StylePreset => ({
+  ...style,
+  id: createBrandItemId('style'),
+  name
+});
+
+const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+const compositionText = ({ clearTop, clearBottom, subject }: PromptComposition, layout: string | null): string[] => {
+  const lines: string[] = layout ? [layout] : [];
+  const areas = layout ? [] : [
+    clearTop > 0 && `the top ${percent(clearTop)}`,
+    clearBottom > 0 && `the lower ${percent(clearBottom)}`
+  ].filter(Boolean);
+  if (areas.length) {
+    lines.push(`Composition: Keep ${areas.join(' and ')} of the image as relative negative space (dark or soft focus) so text and logos placed there stay clearly visible.`);
+  }
+  if (subject !== 'any') lines.push(`Place the main subject ${subject === 'center' ? 'in the center' : `on the ${subject} side`} of the frame.`);
+  return lines;
+};
+
+/**
+ * The exact prompt the image engine receives: the style's template around the scene, then its composition
+ * rules and the things to avoid. Templates without {scene} get the description appended. A layout
+ * description, when given, takes the place of the generic top and bottom bands.
+ */
+export const buildPrompt = (scene: string, style: StylePreset, layout: string | null = null): string => {
+  const description = scene.trim();
+  const body = style.template.includes(SCENE_PLACEHOLDER)
+    ? style.template.split(SCENE_PLACEHOLDER).join(description)
+    : `${style.template.trim()}\nScene: ${description}.`;
+  const negative = style.negativePrompt.trim();
+  return [
+    body.trim(),
+    ...compositionText(style.composition, layout),
+    'Do not include any pre-written text in the image.',
+    negative && `Avoid: ${negative}.`
+  ].filter(Boolean).join('\n');
+};
@@ -0,0 +1,551 @@
+import { QrCodeSettings, QrErrorCorrection, UtmParams } from "../types";
+import { parseColor, Rgb } from "./color";
+
+/*
+ * QR Code model 2 encoder (ISO/IEC 18004), byte mode only. Follows the structure of the reference
+ * implementation: pick the smallest version that fits, add Reed–Solomon error correction per block,
+ * interleave, place the codewords and keep the mask with the lowest penalty.
+ */
+
+const EC_LEVELS: QrErrorCorrection[] = ['L', 'M', 'Q', 'H'];
+
+// Two-bit level indicator stored in the format information
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by level then version (1–40); index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+];
+
+const NUM_ERROR_CORRECTION_BLOCKS: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+];
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Light modules required around the code
+export const QR_QUIET_ZONE = 4;
+
+export interface QrCode {
+  version: number;
+  level: QrErrorCorrection;
+  size: number; // modules per side, without the quiet zone
+  modules: boolean[][]; // [y][x], true is dark
+  isFunction: boolean[][]; // finder, timing, alignment, format and version modules
+  codewordAt: number[][]; // [y][x] index into the interleaved codewords, -1 where none is stored
+  codewordBlock: number[]; // Reed–Solomon block each interleaved codeword belongs to
+  eccPerBlock: number;
+}
+
+const getBit = (value: number, i: number) => ((value >>> i) & 1) !== 0;
+
+const numRawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const numDataCodewords = (version: number, level: number) =>
+  Math.floor(numRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[level][version] * NUM_ERROR_CORRECTION_BLOCKS[level][version];
+
+// Byte mode character count field width
+const countBits = (version: number) => version < 10 ? 8 : 16;
+
+// Longest payload in bytes a version and level can hold
+export const qrCapacity = (version: number, level: QrErrorCorrection) =>
+  Math.floor((numDataCodewords(version, EC_LEVELS.indexOf(level)) * 8 - 4 - countBits(version)) / 8);
+
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  data.forEach(b => {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  });
+  return result;
+};
+
+const alignmentPositions = (version: number, size: number) => {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+// Version and level are fixed at this point; builds the matrix and picks the best mask
+const buildMatrix = (version: number, level: QrErrorCorrection, codewords: number[], codewordBlock: number[], eccPerBlock: number): QrCode => {
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const codewordAt = Array.from({ length: size }, () => new Array<number>(size).fill(-1));
+  const setFunction = (x: number, y: number, dark: boolean) => { modules[y][x] = dark; isFunction[y][x] = true; };
+
+  const drawFormatBits = (mask: number) => {
+    const data = (FORMAT_BITS[level] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    for (let i = 0; i <= 5; i++) setFunction(8, i, getBit(bits, i));
+    setFunction(8, 7, getBit(bits, 6));
+    setFunction(8, 8, getBit(bits, 7));
+    setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, getBit(bits, i));
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, getBit(bits, i));
+    setFunction(8, size - 8, true);
+  };
+
+  // Function patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  });
+  const align = alignmentPositions(version, size);
+  align.forEach((ay, i) => align.forEach((ax, j) => {
+    // The three corners already hold finder patterns
+    if ((i === 0 && j === 0) || (i === 0 && j === align.length - 1) || (i === align.length - 1 && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) setFunction(ax + dx, ay + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+  drawFormatBits(0); // reserves the format area; rewritten once the mask is chosen
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, getBit(bits, i));
+      setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  // Codewords zigzag up and down two-module columns from the bottom right, skipping the vertical timing line
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!isFunction[y][x] && bit < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+          codewordAt[y][x] = bit >>> 3;
+          bit++;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+
+  let best = 0;
+  let minPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(mask);
+    drawFormatBits(mask);
+    const penalty = maskPenalty(modules);
+    if (penalty < minPenalty) { best = mask; minPenalty = penalty; }
+    applyMask(mask); // masks are their own inverse
+  }
+  applyMask(best);
+  drawFormatBits(best);
+  return { version, level, size, modules, isFunction, codewordAt, codewordBlock, eccPerBlock };
+};
+
+// Penalty rules N1–N4: long runs, 2×2 blocks, finder-like patterns and dark/light imbalance
+const maskPenalty = (modules: boolean[][]) => {
+  const size = modules.length;
+  let result = 0;
+  const addHistory = (run: number, history: number[]) => {
+    if (history[0] === 0) run += size; // the quiet zone counts as light
+    history.pop();
+    history.unshift(run);
+  };
+  const countPatterns = (h: number[]) => {
+    const n = h[1];
+    const core = n > 0 && h[2] === n && h[3] === n * 3 && h[4] === n && h[5] === n;
+    return (core && h[0] >= n * 4 && h[6] >= n ? 1 : 0) + (core && h[6] >= n * 4 && h[0] >= n ? 1 : 0);
+  };
+  const scanLine = (get: (i: number) => boolean) => {
+    let runColor = false;
+    let run = 0;
+    const history = [0, 0, 0, 0, 0, 0, 0];
+    for (let i = 0; i < size; i++) {
+      if (get(i) === runColor) {
+        run++;
+        if (run === 5) result += 3;
+        else if (run > 5) result++;
+      } else {
+        addHistory(run, history);
+        if (!runColor) result += countPatterns(history) * 40;
+        runColor = get(i);
+        run = 1;
+      }
+    }
+    if (runColor) { addHistory(run, history); run = 0; }
+    addHistory(run + size, history);
+    result += countPatterns(history) * 40;
+  };
+  for (let y = 0; y < size; y++) scanLine(x => modules[y][x]);
+  for (let x = 0; x < size; x++) scanLine(y => modules[y][x]);
+
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (y < size - 1 && x < size - 1) {
+        const c = modules[y][x];
+        if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) result += 3;
+      }
+    }
+  }
+  const total = size * size;
+  result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return result;
+};
+
+/**
+ * Encodes text as UTF-8 bytes in the smallest version that holds it at the given error correction level.
+ */
+export const encodeQr = (text: string, level: QrErrorCorrection): QrCode => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  const ecl = EC_LEVELS.indexOf(level);
+  let version = MIN_VERSION;
+  for (; ; version++) {
+    if (version > MAX_VERSION) throw new Error(`The link is too long for a QR code at level ${level} (${bytes.length} bytes).`);
+    if (4 + countBits(version) + bytes.length * 8 <= numDataCodewords(version, ecl) * 8) break;
+  }
+
+  const bits: number[] = [];
+  const append = (value: number, length: number) => { for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1); };
+  append(0x4, 4);
+  append(bytes.length, countBits(version));
+  bytes.forEach(b => append(b, 8));
+  const capacity = numDataCodewords(version, ecl) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(bits.slice(i, i + 8).reduce((acc, b) => (acc << 1) | b, 0));
+
+  // Split into blocks, add error correction to each and interleave them
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecl][version];
+  const eccPerBlock = ECC_CODEWORDS_PER_BLOCK[ecl][version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(eccPerBlock);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(k, k + shortBlockLength - eccPerBlock + (i < numShortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+  const codewords: number[] = [];
+  const codewordBlock: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Short blocks carry a placeholder where long blocks have their extra data codeword
+      if (i !== shortBlockLength - eccPerBlock || j >= numShortBlocks) {
+        codewords.push(block[i]);
+        codewordBlock.push(j);
+      }
+    });
+  }
+  return buildMatrix(version, level, codewords, codewordBlock, eccPerBlock);
+};
+
+export const UTM_KEYS: (keyof UtmParams)[] = ['source', 'medium', 'campaign', 'term', 'content'];
+
+export const DEFAULT_QR_CODE: QrCodeSettings = {
+  url: '',
+  utm: { source: '', medium: '', campaign: '', term: '', content: '' },
+  errorCorrection: 'M',
+  foreground: '#000000',
+  background: '#ffffff',
+  rounded: false,
+  logo: false,
+  logoSize: 0.2
+};
+
+// Share of codewords each level can restore, which bounds how much a logo may cover
+export const QR_LEVEL_LABELS: Record<QrErrorCorrection, string> = { L: 'Low · 7%', M: 'Medium · 15%', Q: 'Quartile · 25%', H: 'High · 30%' };
+
+/**
+ * The link the code opens: the typed URL (https:// is assumed without a scheme) with any UTM tags added.
+ */
+export const trackedUrl = (url: string, utm: UtmParams): string => {
+  const trimmed = url.trim();
+  if (!trimmed) throw new Error("Enter a link for the QR code.");
+  let target: URL;
+  try {
+    target = new URL(/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    throw new Error(`"${trimmed}" is not a valid link.`);
+  }
+  UTM_KEYS.forEach(key => {
+    const value = utm[key].trim();
+    if (value) target.searchParams.set(`utm_${key}`, value);
+  });
+  return target.href;
+};
+
+// Encoding runs on every draw, so the last few codes are kept
+const encodeCache = new Map<string, QrCode | null>();
+
+// The settings' code, or null while the link is empty, invalid or too long
+export const qrCodeFor = (settings: QrCodeSettings): QrCode | null => {
+  let text: string;
+  try {
+    text = trackedUrl(settings.url, settings.utm);
+  } catch {
+    return null;
+  }
+  const key = `${settings.errorCorrection}:${text}`;
+  if (!encodeCache.has(key)) {
+    let qr: QrCode | null = null;
+    try {
+      qr = encodeQr(text, settings.errorCorrection);
+    } catch {
+      qr = null;
+    }
+    if (encodeCache.size >= 8) encodeCache.delete(encodeCache.keys().next().value as string);
+    encodeCache.set(key, qr);
+  }
+  return encodeCache.get(key) ?? null;
+};
+
+export interface QrShape {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  radius: number;
+  dark: boolean; // foreground, or background punched back out of it
+}
+
+export interface QrGeometry {
+  module: number;
+  shapes: QrShape[];
+  logo: { x: number; y: number; size: number } | null;
+}
+
+const isFinder = (qr: QrCode, x: number, y: number) =>
+  (x < 7 && y < 7) || (x >= qr.size - 7 && y < 7) || (x < 7 && y >= qr.size - 7);
+
+// Modules under the center logo plus half a module of clearance, in module units
+const logoArea = (qr: QrCode, settings: QrCodeSettings) => {
+  if (!settings.logo) return null;
+  const span = Math.ceil(qr.size * settings.logoSize) | 1; // odd, so it centers on a module
+  const start = (qr.size - span) / 2;
+  return { start, end: start + span };
+};
+
+const coveredByLogo = (area: { start: number; end: number } | null, x: number, y: number) =>
+  !!area && x >= area.start && x < area.end && y >= area.start && y < area.end;
+
+/**
+ * Shapes that draw the code into a square at (x, y), quiet zone included, so the canvas and SVG output match.
+ * Rounded codes get round dots and rounded finder eyes; modules under the logo are left out.
+ */
+export const qrGeometry = (qr: QrCode, settings: QrCodeSettings, x: number, y: number, size: number): QrGeometry => {
+  const module = size / (qr.size + QR_QUIET_ZONE * 2);
+  const origin = (i: number) => QR_QUIET_ZONE * module + i * module;
+  const area = logoArea(qr, settings);
+  const shapes: QrShape[] = [];
+  for (let my = 0; my < qr.size; my++) {
+    for (let mx = 0; mx < qr.size; mx++) {
+      if (!qr.modules[my][mx] || coveredByLogo(area, mx, my) || (settings.rounded && isFinder(qr, mx, my))) continue;
+      shapes.push({ x: x + origin(mx), y: y + origin(my), w: module, h: module, radius: settings.rounded ? module / 2 : 0, dark: true });
+    }
+  }
+  if (settings.rounded) {
+    [[0, 0], [qr.size - 7, 0], [0, qr.size - 7]].forEach(([fx, fy]) => {
+      const ex = x + origin(fx);
+      const ey = y + origin(fy);
+      shapes.push({ x: ex, y: ey, w: module * 7, h: module * 7, radius: module * 2, dark: true });
+      shapes.push({ x: ex + module, y: ey + module, w: module * 5, h: module * 5, radius: module * 1.5, dark: false });
+      shapes.push({ x: ex + module * 2, y: ey + module * 2, w: module * 3, h: module * 3, radius: module, dark: true });
+    });
+  }
+  const logo = area && { x: x + origin(area.start), y: y + origin(area.start), size: (area.end - area.start) * module };
+  return { module, shapes, logo };
+};
+
+/**
+ * Draws the code at (x, y) in a square of `size` pixels: background, modules, then the logo
+ * contained in a rounded plate of the background color.
+ */
+export const drawQrCode = (
+  ctx: CanvasRenderingContext2D, qr: QrCode, settings: QrCodeSettings, x: number, y: number, size: number, logo: HTMLImageElement | null
+) => {
+  const { module, shapes, logo: logoBox } = qrGeometry(qr, settings, x, y, size);
+  ctx.fillStyle = settings.background;
+  ctx.fillRect(x, y, size, size);
+  shapes.forEach(shape => {
+    ctx.fillStyle = shape.dark ? settings.foreground : settings.background;
+    if (shape.radius) {
+      ctx.beginPath(); ctx.roundRect(shape.x, shape.y, shape.w, shape.h, shape.radius); ctx.fill();
+    } else {
+      // Slight overlap hides hairline seams between neighbouring modules
+      ctx.fillRect(shape.x, shape.y, shape.w + 0.5, shape.h + 0.5);
+    }
+  });
+  if (logoBox && logo?.naturalWidth) {
+    const inset = module * 0.5;
+    const box = logoBox.size - inset * 2;
+    const scale = Math.min(box / logo.naturalWidth, box / logo.naturalHeight);
+    const w = logo.naturalWidth * scale;
+    const h = logo.naturalHeight * scale;
+    ctx.drawImage(logo, logoBox.x + (logoBox.size - w) / 2, logoBox.y + (logoBox.size - h) / 2, w, h);
+  }
+};
+
+export type QrIssue = 'invalidLink' | 'tooSmall' | 'lowContrast' | 'inverted' | 'unreadable';
+
+export interface QrScanCheck {
+  ok: boolean;
+  version: number | null;
+  modulePx: number; // size of one module where the code is drawn on the poster
+  issues: QrIssue[];
+}
+
+export const QR_ISSUE_LABELS: Record<QrIssue, string> = {
+  invalidLink: 'The link is empty, invalid or too long to encode',
+  tooSmall: 'Modules are under 2px on the poster; scale the code up',
+  lowContrast: 'Colors are too close to tell dark and light modules apart',
+  inverted: 'Light-on-dark codes are not read by every scanner app',
+  unreadable: 'Too many modules are lost at this size; enlarge the code, shrink the logo or raise error correction'
+};
+
+const MIN_MODULE_PX = 2;
+const MIN_CONTRAST = 3;
+
+const luminance = ([r, g, b]: Rgb) => {
+  const channel = (c: number) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+};
+
+/**
+ * Redraws the code at the size the poster shows it and reads every module back from the pixels, the way a
+ * scanner samples the grid. The code counts as decodable when no finder module flips and no Reed–Solomon
+ * block loses more codewords than it can correct. Colors are checked against the usual scanner limits.
+ */
+export const checkQrScan = (
+  settings: QrCodeSettings, renderedSize: number, logo: HTMLImageElement | null,
+  createCanvas: (width: number, height: number) => HTMLCanvasElement
+): QrScanCheck => {
+  const qr = qrCodeFor(settings);
+  if (!qr) return { ok: false, version: null, modulePx: 0, issues: ['invalidLink'] };
+  const modulePx = renderedSize / (qr.size + QR_QUIET_ZONE * 2);
+  const issues: QrIssue[] = [];
+  if (modulePx < MIN_MODULE_PX) issues.push('tooSmall');
+
+  const fg = parseColor(settings.foreground) ?? [0, 0, 0];
+  const bg = parseColor(settings.background) ?? [255, 255, 255];
+  const [lf, lb] = [luminance(fg), luminance(bg)];
+  if ((Math.max(lf, lb) + 0.05) / (Math.min(lf, lb) + 0.05) < MIN_CONTRAST) issues.push('lowContrast');
+  if (lf > lb) issues.push('inverted');
+
+  const px = Math.max(1, Math.round(renderedSize));
+  const canvas = createCanvas(px, px);
+  const ctx = canvas.getContext('2d')!;
+  drawQrCode(ctx, qr, settings, 0, 0, px, logo);
+  const pixels = ctx.getImageData(0, 0, px, px).data;
+  const damaged = new Set<number>();
+  let finderLost = false;
+  const step = px / (qr.size + QR_QUIET_ZONE * 2);
+  for (let my = 0; my < qr.size; my++) {
+    for (let mx = 0; mx < qr.size; mx++) {
+      const sx = Math.min(px - 1, Math.floor((QR_QUIET_ZONE + mx + 0.5) * step));
+      const sy = Math.min(px - 1, Math.floor((QR_QUIET_ZONE + my + 0.5) * step));
+      const i = (sy * px + sx) * 4;
+      const l = luminance([pixels[i], pixels[i + 1], pixels[i + 2]]);
+      // Closer to the foreground reads as dark, whichever way round the colors are
+      const readDark = Math.abs(l - lf) < Math.abs(l - lb);
+      if (readDark === qr.modules[my][mx]) continue;
+      if (isFinder(qr, mx, my)) finderLost = true;
+      else if (qr.codewordAt[my][mx] >= 0) damaged.add(qr.codewordAt[my][mx]);
+    }
+  }
+  const perBlock = new Map<number, number>();
+  damaged.forEach(index => {
+    const block = qr.codewordBlock[index];
+    perBlock.set(block, (perBlock.get(block) ?? 0) + 1);
+  });
+  const correctable = Math.floor(qr.eccPerBlock / 2);
+  if (finderLost || [...perBlock.values()].some(count => count > correctable)) issues.push('unreadable');
+
+  return { ok: !issues.some(issue => issue !== 'inverted'), version: qr.version, modulePx, issues };
+};
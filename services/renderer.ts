@@ -0,0 +1,744 @@
+import { AspectRatio, BadgeLayer, ButtonLayer, PosterConfig, PosterLayer, TextGradient, TextLayer, TextTransform, TextualLayer } from "../types";
+import { withAlpha } from "./color";
+import { drawQrCode, qrCodeFor } from "./qr";
+import { resolveImageSrc, resolveText } from "./layers";
+
+export type ImageCache = Map<string, HTMLImageElement>;
+
+export const POSTER_WIDTH = 1080;
+
+export const posterHeight = (aspectRatio: AspectRatio, width = POSTER_WIDTH) => {
+  const [wRatio, hRatio] = aspectRatio.split(':').map(Number);
+  return (width / wRatio) * hRatio;
+};
+
+// Inset kept clear of platform UI and trimming, as fractions of the poster's width and height
+const SAFE_ZONE_INSETS: Record<AspectRatio, { x: number; y: number }> = {
+  [AspectRatio.SQUARE]: { x: 0.05, y: 0.05 },
+  [AspectRatio.STORY]: { x: 0.05, y: 0.12 },
+  [AspectRatio.LANDSCAPE]: { x: 0.05, y: 0.07 },
+  [AspectRatio.LINKEDIN]: { x: 0.05, y: 0.06 }
+};
+
+export const safeZone = (aspectRatio: AspectRatio, width: number, height: number): Box => {
+  const inset = SAFE_ZONE_INSETS[aspectRatio];
+  return { x: width * inset.x, y: height * inset.y, w: width * (1 - inset.x * 2), h: height * (1 - inset.y * 2) };
+};
+
+export type CanvasFactory = (width: number, height: number) => HTMLCanvasElement;
+
+let canvasFactory: CanvasFactory = (width, height) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Offscreen canvases come from the DOM; the headless CLI swaps in a server-side canvas
+export const setCanvasFactory = (factory: CanvasFactory) => { canvasFactory = factory; };
+
+export const createCanvas = (width: number, height: number) => canvasFactory(Math.round(width), Math.round(height));
+
+// Axis-aligned box of a layer before its rotation is applied, in canvas pixels
+export interface LayerBounds {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  rotation: number; // radians, applied around the box center
+}
+
+export interface RenderSurface {
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  config: PosterConfig;
+  images: ImageCache;
+}
+
+// Everything a render needs besides the design itself
+export interface RenderAssets {
+  background: HTMLImageElement | null;
+  images: ImageCache;
+}
+
+// Fixed element details, designed on the 1080px-wide poster grid and scaled with the render width
+const METRICS = {
+  imageBackdropPad: 6,
+  badgeGap: 15,
+  badgeInset: 17,
+  badgeRadius: 10,
+  badgeBaseline: 10,
+  badgeExtraWidth: 34,
+  buttonRadius: 20,
+  buttonBaseline: 12,
+  buttonExtraWidth: 80
+};
+
+export const metric = (width: number, key: keyof typeof METRICS) => (METRICS[key] / POSTER_WIDTH) * width;
+
+export const DEFAULT_FONT_FAMILY = 'Inter';
+
+// Fallbacks for scripts most Latin fonts lack; the browser picks them glyph by glyph
+export const SCRIPT_FONTS = [
+  { family: 'Noto Sans Arabic', pattern: /\p{Script=Arabic}/u },
+  { family: 'Noto Sans Devanagari', pattern: /\p{Script=Devanagari}/u }
+];
+
+const RTL_SCRIPT = /[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}]/u;
+
+// Letter spacing would pull apart joined Arabic letters and break the Devanagari headstroke
+const CONNECTED_SCRIPT = /[\p{Script=Arabic}\p{Script=Syriac}\p{Script=Devanagari}]/u;
+
+export const fontWeight = (layer: TextualLayer) => layer.fontWeight ?? (layer.pos.bold ? 700 : 400);
+
+export const isBold = (layer: TextualLayer) => fontWeight(layer) >= 600;
+
+export const fontFamily = (layer: TextualLayer) => layer.fontFamily || DEFAULT_FONT_FAMILY;
+
+export const fontStack = (layer: TextualLayer) =>
+  [fontFamily(layer), ...SCRIPT_FONTS.map(f => f.family)].map(family => `"${family}"`).join(', ') + ', sans-serif';
+
+// `fit` scales the layer's own size, for auto-fit and smaller second-language text
+export const getFontStyle = (layer: TextualLayer, canvasWidth: number, fit = 1) => {
+  const italic = layer.pos.italic ? 'italic ' : '';
+  return `${italic}${fontWeight(layer)} ${canvasWidth * layer.fontSize * layer.pos.scale * fit}px ${fontStack(layer)}`;
+};
+
+export const hasTracking = (text: string) => !CONNECTED_SCRIPT.test(text);
+
+// Font and tracking are always set together so every measurement includes the letter spacing
+const applyFont = (ctx: CanvasRenderingContext2D, layer: TextualLayer, canvasWidth: number, fit = 1, tracking = true) => {
+  ctx.font = getFontStyle(layer, canvasWidth, fit);
+  ctx.letterSpacing = `${tracking ? (layer.letterSpacing ?? 0) * canvasWidth * layer.fontSize * layer.pos.scale * fit : 0}px`;
+};
+
+// Base direction from the first letter, as `dir="auto"` does; the canvas then orders mixed runs itself
+export const detectDirection = (text: string): 'ltr' | 'rtl' => {
+  const letter = text.match(/\p{L}/u)?.[0];
+  return letter && RTL_SCRIPT.test(letter) ? 'rtl' : 'ltr';
+};
+
+export const textDirection = (layer: TextualLayer, text: string): 'ltr' | 'rtl' =>
+  layer.direction === 'ltr' || layer.direction === 'rtl' ? layer.direction : detectDirection(text);
+
+export const transformText = (text: string, transform: TextTransform = 'none') => {
+  switch (transform) {
+    case 'uppercase': return text.toUpperCase();
+    case 'lowercase': return text.toLowerCase();
+    case 'capitalize': return text.replace(/(^|\s)(\S)/g, (_, space: string, letter: string) => space + letter.toUpperCase());
+    default: return text;
+  }
+};
+
+const ELLIPSIS = '…';
+
+// Auto-fit never shrinks text below this share of its set size
+export const MIN_FIT = 0.4;
+
+// Gap between the two languages of a side-by-side layer, in ems
+const SPLIT_GAP = 0.6;
+
+// User-perceived characters, so breaks never split a Devanagari conjunct or a letter from its marks
+const graphemes = (text: string) => typeof Intl.Segmenter === 'function'
+  ? Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text), s => s.segment)
+  : Array.from(text);
+
+/**
+ * Greedy word wrap of one paragraph. A word wider than the box breaks between characters, without a hyphen.
+ */
+export const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const fits = (value: string) => ctx.measureText(value).width <= maxWidth;
+  const lines: string[] = [];
+  let line = '';
+  text.split(' ').forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (fits(candidate)) {
+      line = candidate;
+      return;
+    }
+    if (line) lines.push(line);
+    line = '';
+    if (fits(word)) {
+      line = word;
+      return;
+    }
+    graphemes(word).forEach(char => {
+      if (line && !fits(line + char)) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    });
+  });
+  lines.push(line);
+  return lines;
+};
+
+export interface BrokenLine {
+  text: string;
+  direction: 'ltr' | 'rtl';
+}
+
+// Explicit line breaks always start a new line and each paragraph keeps its own direction
+export const breakLines = (ctx: CanvasRenderingContext2D, layer: TextualLayer, text: string, maxWidth?: number): BrokenLine[] =>
+  text.split(/\r?\n/).flatMap(paragraph => {
+    const direction = textDirection(layer, paragraph);
+    return (maxWidth ? wrapLines(ctx, paragraph, maxWidth) : [paragraph]).map(line => ({ text: line, direction }));
+  });
+
+// Shortens the line until it and a trailing ellipsis fit the width
+const ellipsize = (ctx: CanvasRenderingContext2D, line: string, maxWidth: number) => {
+  const chars = graphemes(line.trimEnd());
+  while (chars.length && ctx.measureText(chars.join('') + ELLIPSIS).width > maxWidth) chars.pop();
+  return chars.join('').trimEnd() + ELLIPSIS;
+};
+
+const displayText = (config: PosterConfig, layer: TextLayer | ButtonLayer) => transformText(resolveText(config, layer), layer.textTransform);
+
+const secondaryText = (layer: TextLayer) => layer.secondary?.text.trim() ? transformText(layer.secondary.text, layer.textTransform) : '';
+
+// Every string a layer draws, for font loading
+export const layerTexts = (config: PosterConfig, layer: TextualLayer): string[] => {
+  switch (layer.type) {
+    case 'text': return [displayText(config, layer), secondaryText(layer)].filter(Boolean);
+    case 'button': return [displayText(config, layer)];
+    case 'badge': return layer.items.map(item => transformText(resolveText(config, item), layer.textTransform));
+  }
+};
+
+// Image layers showing the design's QR draw the generated code instead when it has one
+export const generatedQr = (config: PosterConfig, layer: PosterLayer) =>
+  layer.type === 'image' && layer.assetField === 'qrUrl' ? config.qrCode : null;
+
+const loadedImage = (surface: RenderSurface, layer: PosterLayer) => {
+  const src = resolveImageSrc(surface.config, layer);
+  const img = src ? surface.images.get(src) : undefined;
+  return img?.complete && img.naturalWidth ? img : null;
+};
+
+// One placed line of a text layer; `fit` is the size factor its font is set with
+export interface TextLine extends BrokenLine {
+  x: number;
+  y: number; // baseline
+  align: CanvasTextAlign;
+  size: number;
+  fit: number;
+  tracking: boolean;
+}
+
+/**
+ * Lays a text layer out into placed lines. With auto-fit on, the font shrinks (down to `MIN_FIT`) until the text
+ * fits its box width and line limit, using the safe zone's width when the layer has no box. Text that still has
+ * too many lines is cut at the limit and marked `truncated`. A second language either follows the main text or,
+ * split, shares the box with it: left-to-right text in the left column, right-to-left text in the right.
+ */
+export const layoutText = (surface: RenderSurface, layer: TextLayer) => {
+  const { ctx, width, height } = surface;
+  const boxWidth = layer.maxWidth ? width * layer.maxWidth : undefined;
+  const fitWidth = boxWidth ?? safeZone(surface.config.aspectRatio, width, height).w;
+  const maxLines = layer.maxLines || Infinity;
+  const em = width * layer.fontSize * layer.pos.scale;
+  const second = secondaryText(layer);
+  const split = !!second && layer.secondary?.arrangement === 'split';
+  const sources = [
+    { text: displayText(surface.config, layer), scale: 1 },
+    ...(second ? [{ text: second, scale: layer.secondary?.scale ?? 1 }] : [])
+  ];
+
+  const blocksAt = (fit: number) => {
+    const columnWidth = split ? (fitWidth - em * fit * SPLIT_GAP) / 2 : fitWidth;
+    return sources.map(({ text, scale }) => {
+      const tracking = hasTracking(text);
+      applyFont(ctx, layer, width, fit * scale, tracking);
+      const lines = breakLines(ctx, layer, text, split ? columnWidth : boxWidth);
+      const overflows = lines.some(line => ctx.measureText(line.text).width > columnWidth);
+      return { lines, fit: fit * scale, tracking, overflows, columnWidth };
+    });
+  };
+  const fitsAt = (fit: number) => blocksAt(fit).every(block => block.lines.length <= maxLines && !block.overflows);
+
+  let fit = 1;
+  if (layer.autoFit && !fitsAt(1)) {
+    // Binary search for the largest size that fits, to about 1% of the set size
+    let lo = MIN_FIT;
+    let hi = 1;
+    for (let i = 0; i < 7; i++) {
+      const mid = (lo + hi) / 2;
+      if (fitsAt(mid)) lo = mid; else hi = mid;
+    }
+    fit = lo;
+  }
+
+  let truncated = false;
+  const blocks = blocksAt(fit).map(block => {
+    applyFont(ctx, layer, width, block.fit, block.tracking);
+    let lines = block.lines;
+    if (lines.length > maxLines) {
+      truncated = true;
+      lines = lines.slice(0, maxLines);
+      const last = lines[maxLines - 1];
+      lines[maxLines - 1] = { ...last, text: ellipsize(ctx, last.text, split ? block.columnWidth : boxWidth ?? Infinity) };
+    }
+    const widths = lines.map(line => ctx.measureText(line.text).width);
+    const lineHeight = width * (layer.lineHeight ?? layer.fontSize * 1.4) * layer.pos.scale * block.fit;
+    return { ...block, lines, widths, lineHeight, size: em * block.fit };
+  });
+
+  const size = em * fit;
+  const anchorX = (layer.pos.x / 100) * width;
+  const baseline = (layer.pos.y / 100) * height;
+  const lines: TextLine[] = [];
+  let lineWidth: number;
+  let left: number;
+  let bottom = baseline;
+
+  if (split) {
+    // The left column holds the left-to-right language when the two differ
+    const rtlFirst = blocks[0].lines[0]?.direction === 'rtl' && blocks[1].lines[0]?.direction !== 'rtl';
+    const [leftBlock, rightBlock] = rtlFirst ? [blocks[1], blocks[0]] : blocks;
+    lineWidth = fitWidth;
+    left = layer.align === 'center' ? anchorX - fitWidth / 2 : layer.align === 'right' || layer.align === 'end' ? anchorX - fitWidth : anchorX;
+    [{ block: leftBlock, x: left, align: 'left' as const }, { block: rightBlock, x: left + fitWidth, align: 'right' as const }].forEach(({ block, x, align }) => {
+      block.lines.forEach((line, i) => lines.push({ ...line, x, y: baseline + i * block.lineHeight, align, size: block.size, fit: block.fit, tracking: block.tracking }));
+      bottom = Math.max(bottom, baseline + (block.lines.length - 1) * block.lineHeight + block.size * 0.25);
+    });
+  } else {
+    let y = baseline;
+    blocks.forEach((block, b) => {
+      if (b > 0) y += block.lineHeight;
+      block.lines.forEach((line, i) => {
+        if (i > 0) y += block.lineHeight;
+        lines.push({ ...line, x: anchorX, y, align: layer.align, size: block.size, fit: block.fit, tracking: block.tracking });
+      });
+      bottom = y + block.size * 0.25;
+    });
+    lineWidth = Math.max(0, ...blocks.flatMap(block => block.widths));
+    left = layer.align === 'center' ? anchorX - lineWidth / 2
+      : layer.align === 'right' || layer.align === 'end' ? anchorX - lineWidth
+      : anchorX;
+  }
+
+  // The first baseline sits at the anchor; ascent covers cap height, descent the last line's tails
+  const top = baseline - Math.max(...blocks.map(block => block.size)) * 0.8;
+  const box: Box = { x: left, y: top, w: lineWidth, h: bottom - top };
+  return { size, lines, box, fit, truncated };
+};
+
+// End points of a CSS-style gradient angle spanning the box, so both corners get the end colors
+export const gradientLine = (box: Box, angle: number) => {
+  const rad = (angle * Math.PI) / 180;
+  const dx = Math.sin(rad);
+  const dy = -Math.cos(rad);
+  const half = Math.abs((box.w / 2) * dx) + Math.abs((box.h / 2) * dy);
+  const cx = box.x + box.w / 2;
+  const cy = box.y + box.h / 2;
+  return { x1: cx - dx * half, y1: cy - dy * half, x2: cx + dx * half, y2: cy + dy * half };
+};
+
+const textGradient = (ctx: CanvasRenderingContext2D, gradient: TextGradient, box: Box) => {
+  const { x1, y1, x2, y2 } = gradientLine(box, gradient.angle);
+  const fill = ctx.createLinearGradient(x1, y1, x2, y2);
+  fill.addColorStop(0, gradient.from);
+  fill.addColorStop(1, gradient.to);
+  return fill;
+};
+
+const castShadow = (ctx: CanvasRenderingContext2D, color: string, opacity: number, blur: number, x = 0, y = 0) => {
+  ctx.shadowColor = withAlpha(color, opacity);
+  ctx.shadowBlur = blur;
+  ctx.shadowOffsetX = x;
+  ctx.shadowOffsetY = y;
+};
+
+export const layoutBadges = (surface: RenderSurface, layer: BadgeLayer) => {
+  const { ctx, width, config } = surface;
+  const scale = layer.pos.scale;
+  const height = (width * 0.055) * scale;
+  const gap = metric(width, 'badgeGap') * scale;
+  let offset = 0;
+  const items = layer.items.map((item, i) => {
+    const text = transformText(resolveText(config, item), layer.textTransform);
+    const tracking = hasTracking(text);
+    applyFont(ctx, layer, width, 1, tracking);
+    const w = ctx.measureText(text).width + metric(width, 'badgeExtraWidth') * scale;
+    if (i > 0) offset += gap;
+    const placed = { text, fill: item.fill, x: offset, w, tracking, direction: textDirection(layer, text) };
+    offset += w;
+    return placed;
+  });
+  return { items, width: offset, height };
+};
+
+export const layoutButton = (surface: RenderSurface, layer: ButtonLayer) => {
+  const { ctx, width } = surface;
+  const text = displayText(surface.config, layer);
+  const tracking = hasTracking(text);
+  applyFont(ctx, layer, width, 1, tracking);
+  return { text, tracking, direction: textDirection(layer, text), w: ctx.measureText(text).width + metric(width, 'buttonExtraWidth'), h: (width * 0.11) * layer.pos.scale };
+};
+
+export const measureLayer = (surface: RenderSurface, layer: PosterLayer): LayerBounds => {
+  const { width, height } = surface;
+  const { pos } = layer;
+  const x = (pos.x / 100) * width;
+  const y = (pos.y / 100) * height;
+  const rotation = ((pos.rotation ?? 0) * Math.PI) / 180;
+
+  switch (layer.type) {
+    case 'image': {
+      const img = generatedQr(surface.config, layer) ? null : loadedImage(surface, layer);
+      const w = width * layer.width * pos.scale;
+      const h = img ? (img.height / img.width) * w : w;
+      const pad = layer.backdrop ? metric(width, 'imageBackdropPad') * pos.scale : 0;
+      return { x: x - pad, y: y - pad, w: w + pad * 2, h: h + pad * 2, rotation };
+    }
+    case 'shape':
+      return { x, y, w: width * layer.width * pos.scale, h: width * layer.height * pos.scale, rotation };
+    case 'text': {
+      const { size, box } = layoutText(surface, layer);
+      const pad = layer.plate ? layer.plate.padding * size : 0;
+      return { x: box.x - pad, y: box.y - pad, w: box.w + pad * 2, h: box.h + pad * 2, rotation };
+    }
+    case 'badge': {
+      const badges = layoutBadges(surface, layer);
+      return { x, y, w: badges.width, h: badges.height, rotation };
+    }
+    case 'button': {
+      const button = layoutButton(surface, layer);
+      return { x: x - button.w / 2, y, w: button.w, h: button.h, rotation };
+    }
+  }
+};
+
+export const drawLayer = (surface: RenderSurface, layer: PosterLayer) => {
+  const { ctx, width, height, config } = surface;
+  const { pos } = layer;
+  if (!pos.visible) return;
+  const px = (pct: number) => (pct / 100) * width;
+  const py = (pct: number) => (pct / 100) * height;
+
+  const bounds = measureLayer(surface, layer);
+  ctx.save();
+  if (bounds.rotation) {
+    const cx = bounds.x + bounds.w / 2;
+    const cy = bounds.y + bounds.h / 2;
+    ctx.translate(cx, cy);
+    ctx.rotate(bounds.rotation);
+    ctx.translate(-cx, -cy);
+  }
+
+  switch (layer.type) {
+    case 'image': {
+      const qrSettings = generatedQr(config, layer);
+      const qr = qrSettings && qrCodeFor(qrSettings);
+      const img = loadedImage(surface, layer);
+      if (qrSettings ? !qr : !img) break;
+      if (layer.backdrop) {
+        ctx.fillStyle = layer.backdrop;
+        ctx.fillRect(bounds.x, bounds.y, bounds.w, bounds.h);
+      }
+      const w = width * layer.width * pos.scale;
+      if (qrSettings && qr) {
+        const logo = qrSettings.logo ? surface.images.get(config.logoUrl) ?? null : null;
+        drawQrCode(ctx, qr, qrSettings, px(pos.x), py(pos.y), w, logo?.complete ? logo : null);
+        break;
+      }
+      if (!img) break;
+      ctx.drawImage(img, px(pos.x), py(pos.y), w, (img.height / img.width) * w);
+      break;
+    }
+    case 'shape': {
+      ctx.fillStyle = layer.fill;
+      ctx.beginPath();
+      if (layer.shape === 'ellipse') {
+        ctx.ellipse(bounds.x + bounds.w / 2, bounds.y + bounds.h / 2, bounds.w / 2, bounds.h / 2, 0, 0, Math.PI * 2);
+      } else {
+        ctx.roundRect(bounds.x, bounds.y, bounds.w, bounds.h, width * layer.radius * pos.scale);
+      }
+      ctx.fill();
+      break;
+    }
+    case 'text': {
+      const { size, lines, box } = layoutText(surface, layer);
+      const { gradient, stroke, shadow, glow, plate } = layer;
+      if (plate) {
+        ctx.fillStyle = withAlpha(plate.color, plate.opacity);
+        ctx.beginPath(); ctx.roundRect(bounds.x, bounds.y, bounds.w, bounds.h, plate.radius * size); ctx.fill();
+      }
+      ctx.fillStyle = gradient ? textGradient(ctx, gradient, box) : layer.color;
+      if (stroke) {
+        // Stroked before the fill, so only the outer half of the line shows
+        ctx.strokeStyle = stroke.color; ctx.lineJoin = 'round';
+      }
+      const paint = () => lines.forEach(line => {
+        applyFont(ctx, layer, width, line.fit, line.tracking);
+        ctx.direction = line.direction;
+        ctx.textAlign = line.align;
+        if (stroke) {
+          ctx.lineWidth = stroke.width * line.size * 2;
+          ctx.strokeText(line.text, line.x, line.y);
+        }
+        ctx.fillText(line.text, line.x, line.y);
+      });
+      // A canvas casts one shadow per draw, so glow and drop shadow each get a pass; the last pass leaves the text on top
+      if (glow) { castShadow(ctx, glow.color, glow.opacity, glow.blur * size); paint(); }
+      if (shadow) { castShadow(ctx, shadow.color, shadow.opacity, shadow.blur * size, shadow.x * size, shadow.y * size); paint(); }
+      if (!glow && !shadow) paint();
+      break;
+    }
+    case 'badge': {
+      const scale = pos.scale;
+      const badges = layoutBadges(surface, layer);
+      ctx.textAlign = "left";
+      badges.items.forEach(item => {
+        ctx.fillStyle = item.fill;
+        ctx.beginPath(); ctx.roundRect(bounds.x + item.x, bounds.y, item.w, badges.height, metric(width, 'badgeRadius') * scale); ctx.fill();
+        ctx.fillStyle = layer.color;
+        applyFont(ctx, layer, width, 1, item.tracking);
+        ctx.direction = item.direction;
+        ctx.fillText(item.text, bounds.x + item.x + metric(width, 'badgeInset') * scale, bounds.y + badges.height / 2 + metric(width, 'badgeBaseline') * scale);
+      });
+      break;
+    }
+    case 'button': {
+      const scale = pos.scale;
+      const button = layoutButton(surface, layer);
+      ctx.textAlign = "center";
+      ctx.fillStyle = layer.fill;
+      ctx.beginPath(); ctx.roundRect(bounds.x, bounds.y, bounds.w, bounds.h, metric(width, 'buttonRadius') * scale); ctx.fill();
+      ctx.fillStyle = layer.color;
+      ctx.direction = button.direction;
+      ctx.fillText(button.text, px(pos.x), bounds.y + bounds.h / 2 + metric(width, 'buttonBaseline') * scale);
+      break;
+    }
+  }
+  ctx.restore();
+};
+
+// Maps a canvas point into the unrotated frame of the given bounds
+export const toLocalPoint = (bounds: LayerBounds, point: { x: number; y: number }) => {
+  const cx = bounds.x + bounds.w / 2;
+  const cy = bounds.y + bounds.h / 2;
+  const cos = Math.cos(-bounds.rotation);
+  const sin = Math.sin(-bounds.rotation);
+  const dx = point.x - cx;
+  const dy = point.y - cy;
+  return { x: cx + dx * cos - dy * sin, y: cy + dx * sin + dy * cos };
+};
+
+// Maps a point in the unrotated frame back onto the canvas
+export const toCanvasPoint = (bounds: LayerBounds, point: { x: number; y: number }) => {
+  const cx = bounds.x + bounds.w / 2;
+  const cy = bounds.y + bounds.h / 2;
+  const cos = Math.cos(bounds.rotation);
+  const sin = Math.sin(bounds.rotation);
+  const dx = point.x - cx;
+  const dy = point.y - cy;
+  return { x: cx + dx * cos - dy * sin, y: cy + dx * sin + dy * cos };
+};
+
+export const containsPoint = (bounds: LayerBounds, point: { x: number; y: number }, tolerance = 0) => {
+  const local = toLocalPoint(bounds, point);
+  return local.x >= bounds.x - tolerance && local.x <= bounds.x + bounds.w + tolerance
+    && local.y >= bounds.y - tolerance && local.y <= bounds.y + bounds.h + tolerance;
+};
+
+// Topmost visible layer under the point wins, matching the draw order
+export const hitTestLayers = (surface: RenderSurface, point: { x: number; y: number }, tolerance = 0): PosterLayer | null => {
+  for (let i = surface.config.layers.length - 1; i >= 0; i--) {
+    const layer = surface.config.layers[i];
+    if (!layer.pos.visible) continue;
+    if (containsPoint(measureLayer(surface, layer), point, tolerance)) return layer;
+  }
+  return null;
+};
+
+export interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Screen-aligned box enclosing a possibly rotated layer, used for snapping and alignment
+export const axisAlignedBounds = (bounds: LayerBounds): Box => {
+  if (!bounds.rotation) return { x: bounds.x, y: bounds.y, w: bounds.w, h: bounds.h };
+  const corners = [
+    { x: bounds.x, y: bounds.y }, { x: bounds.x + bounds.w, y: bounds.y },
+    { x: bounds.x + bounds.w, y: bounds.y + bounds.h }, { x: bounds.x, y: bounds.y + bounds.h }
+  ].map(p => toCanvasPoint(bounds, p));
+  const xs = corners.map(p => p.x);
+  const ys = corners.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+};
+
+export const unionBox = (boxes: Box[]): Box => {
+  const x = Math.min(...boxes.map(b => b.x));
+  const y = Math.min(...boxes.map(b => b.y));
+  return {
+    x, y,
+    w: Math.max(...boxes.map(b => b.x + b.w)) - x,
+    h: Math.max(...boxes.map(b => b.y + b.h)) - y
+  };
+};
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = "anonymous";
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Failed to load image."));
+  img.src = src;
+});
+
+const settled = (img: HTMLImageElement) => img.complete ? Promise.resolve() : new Promise<void>(resolve => {
+  img.addEventListener('load', () => resolve(), { once: true });
+  img.addEventListener('error', () => resolve(), { once: true });
+});
+
+// Fills the cache for every source; broken images are cached too so a bad URL renders as empty instead of stalling
+export const preloadImages = async (cache: ImageCache, sources: string[]) => {
+  await Promise.all(sources.map(async src => {
+    const cached = cache.get(src);
+    if (cached) return settled(cached);
+    try {
+      cache.set(src, await loadImage(src));
+    } catch {
+      cache.set(src, new Image());
+    }
+  }));
+};
+
+export const imageSources = (config: PosterConfig) => [...new Set([
+  ...config.layers.map(l => resolveImageSrc(config, l)),
+  config.qrCode?.logo ? config.logoUrl : null
+].filter((src): src is string => !!src))];
+
+const focusCache = new WeakMap<HTMLImageElement, Map<number, number>>();
+
+// Where along the cropped axis (0–1) the most detailed window of the image starts, judged by
+// edge energy on a small downsample. Falls back to a center crop when pixels can't be read.
+const focusOffset = (img: HTMLImageElement, targetRatio: number): number => {
+  const cached = focusCache.get(img)?.get(targetRatio);
+  if (cached !== undefined) return cached;
+
+  const imgRatio = img.naturalWidth / img.naturalHeight;
+  const horizontal = imgRatio > targetRatio;
+  const sample = 64;
+  const cols = horizontal ? sample : Math.max(2, Math.round(sample * imgRatio));
+  const rows = horizontal ? Math.max(2, Math.round(sample / imgRatio)) : sample;
+  let offset = 0.5;
+  try {
+    const ctx = createCanvas(cols, rows).getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("No 2D context");
+    ctx.drawImage(img, 0, 0, cols, rows);
+    const { data } = ctx.getImageData(0, 0, cols, rows);
+    const lum = (x: number, y: number) => {
+      const i = (y * cols + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+    const length = horizontal ? cols : rows;
+    const energy = new Array<number>(length).fill(0);
+    for (let y = 0; y < rows - 1; y++) {
+      for (let x = 0; x < cols - 1; x++) {
+        const e = Math.abs(lum(x + 1, y) - lum(x, y)) + Math.abs(lum(x, y + 1) - lum(x, y));
+        energy[horizontal ? x : y] += e;
+      }
+    }
+    const windowSize = Math.round(length * (horizontal ? targetRatio / imgRatio : imgRatio / targetRatio));
+    if (windowSize < length) {
+      let sum = energy.slice(0, windowSize).reduce((a, b) => a + b, 0);
+      let best = sum;
+      let bestStart = 0;
+      for (let start = 1; start + windowSize <= length; start++) {
+        sum += energy[start + windowSize - 1] - energy[start - 1];
+        if (sum > best) { best = sum; bestStart = start; }
+      }
+      offset = bestStart / (length - windowSize);
+    }
+  } catch {
+    // Cross-origin images without CORS headers cannot be sampled
+  }
+  if (!focusCache.has(img)) focusCache.set(img, new Map());
+  focusCache.get(img)!.set(targetRatio, offset);
+  return offset;
+};
+
+// The part of the background image a poster of the given ratio shows, in image pixels
+export const backgroundCrop = (background: HTMLImageElement, targetRatio: number): Box => {
+  const { naturalWidth: iw, naturalHeight: ih } = background;
+  if (Math.abs(iw / ih - targetRatio) < 0.01) return { x: 0, y: 0, w: iw, h: ih };
+  const offset = focusOffset(background, targetRatio);
+  const w = Math.min(iw, ih * targetRatio);
+  const h = Math.min(ih, iw / targetRatio);
+  return { x: (iw - w) * offset, y: (ih - h) * offset, w, h };
+};
+
+// Backgrounds cover the canvas; when the image was made for another aspect ratio it is cropped around its busiest region
+export const drawBackground = (ctx: CanvasRenderingContext2D, width: number, height: number, background: HTMLImageElement | null) => {
+  if (background?.complete && background.naturalWidth) {
+    const crop = backgroundCrop(background, width / height);
+    ctx.drawImage(background, crop.x, crop.y, crop.w, crop.h, 0, 0, width, height);
+    return;
+  }
+  const grad = ctx.createLinearGradient(0, 0, 0, height);
+  grad.addColorStop(0, '#0f172a');
+  grad.addColorStop(1, '#020617');
+  ctx.fillStyle = grad;
+  ctx.fillRect(0, 0, width, height);
+};
+
+export interface RenderSize {
+  width: number;
+  height?: number; // Defaults to the height implied by the aspect ratio
+  bleed?: number; // Extra background around every edge, in pixels, outside width × height
+}
+
+/**
+ * Draws a complete poster into `ctx`. It reads nothing but its arguments, so the same call
+ * serves the editor, exports, thumbnails and batch jobs. Images must already be loaded.
+ */
+export const renderPoster = (
+  ctx: CanvasRenderingContext2D,
+  config: PosterConfig,
+  { background, images }: RenderAssets,
+  { width, height = posterHeight(config.aspectRatio, width), bleed = 0 }: RenderSize
+) => {
+  const surface: RenderSurface = { ctx, width, height, config, images };
+  ctx.save();
+  drawBackground(ctx, width + bleed * 2, height + bleed * 2, background);
+  ctx.translate(bleed, bleed);
+  config.layers.forEach(layer => drawLayer(surface, layer));
+  ctx.restore();
+};
+
+// An offscreen surface at the requested width, for measuring or drawing away from the editor canvas
+export const createSurface = (config: PosterConfig, images: ImageCache, width = POSTER_WIDTH): RenderSurface => {
+  const canvas = createCanvas(width, posterHeight(config.aspectRatio, width));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas rendering is not available.");
+  return { ctx, width: canvas.width, height: canvas.height, config, images };
+};
+
+/**
+ * Renders a poster into a fresh offscreen canvas of the given width (plus bleed on every side).
+ */
+export const renderPosterCanvas = (config: PosterConfig, assets: RenderAssets, { width = POSTER_WIDTH, bleed = 0 }: Partial<RenderSize> = {}): HTMLCanvasElement => {
+  const height = posterHeight(config.aspectRatio, width);
+  const canvas = createCanvas(width + bleed * 2, height + bleed * 2);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas rendering is not available.");
+  renderPoster(ctx, config, assets, { width, height, bleed });
+  return canvas;
+};
+
+export const encodeCanvas = (canvas: HTMLCanvasElement, mime = 'image/png', quality?: number) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => {
+    if (blob) resolve(blob);
+    else reject(new Error("Could not encode the poster. A cross-origin image may be blocking export."));
+  }, mime, quality);
+});
+
+export const encodePng = async (canvas: HTMLCanvasElement) => new Uint8Array(await (await encodeCanvas(canvas)).arrayBuffer());
@@ -0,0 +1,144 @@
+import { Box } from "./renderer";
+
+export type GuideAxis = 'x' | 'y';
+
+// A line the dragged box aligned to: vertical when axis is 'x', horizontal when 'y'
+export interface AlignmentGuide {
+  kind: 'align';
+  axis: GuideAxis;
+  position: number;
+  from: number;
+  to: number;
+}
+
+// Equal gaps found along an axis, drawn as measured segments between neighbours
+export interface SpacingGuide {
+  kind: 'spacing';
+  axis: GuideAxis;
+  gap: number;
+  segments: { from: number; to: number; cross: number }[];
+}
+
+export type SnapGuide = AlignmentGuide | SpacingGuide;
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  snappedX: boolean;
+  snappedY: boolean;
+  guides: SnapGuide[];
+}
+
+interface Candidate {
+  delta: number;
+  guides: SnapGuide[];
+}
+
+const start = (box: Box, axis: GuideAxis) => axis === 'x' ? box.x : box.y;
+const size = (box: Box, axis: GuideAxis) => axis === 'x' ? box.w : box.h;
+const end = (box: Box, axis: GuideAxis) => start(box, axis) + size(box, axis);
+const cross = (axis: GuideAxis): GuideAxis => axis === 'x' ? 'y' : 'x';
+
+const overlapsOn = (a: Box, b: Box, axis: GuideAxis) =>
+  start(a, axis) < end(b, axis) && start(b, axis) < end(a, axis);
+
+const shift = (box: Box, axis: GuideAxis, delta: number): Box =>
+  axis === 'x' ? { ...box, x: box.x + delta } : { ...box, y: box.y + delta };
+
+const edgeCandidates = (moving: Box, targets: Box[], canvas: Box, axis: GuideAxis, threshold: number): Candidate | null => {
+  const movingLines = [start(moving, axis), start(moving, axis) + size(moving, axis) / 2, end(moving, axis)];
+  const targetLines: { value: number; box: Box }[] = [canvas, ...targets].flatMap(box => [
+    { value: start(box, axis), box },
+    { value: start(box, axis) + size(box, axis) / 2, box },
+    { value: end(box, axis), box }
+  ]);
+
+  let best: number | null = null;
+  targetLines.forEach(({ value }) => {
+    movingLines.forEach(line => {
+      const delta = value - line;
+      if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) best = delta;
+    });
+  });
+  if (best === null) return null;
+
+  const delta: number = best;
+  const snapped = shift(moving, axis, delta);
+  const snappedLines = [start(snapped, axis), start(snapped, axis) + size(snapped, axis) / 2, end(snapped, axis)];
+  const other = cross(axis);
+  const guides: SnapGuide[] = [];
+  targetLines.forEach(({ value, box }) => {
+    if (!snappedLines.some(line => Math.abs(line - value) < 0.5)) return;
+    const from = Math.min(start(snapped, other), start(box, other));
+    const to = Math.max(end(snapped, other), end(box, other));
+    guides.push({ kind: 'align', axis, position: value, from, to });
+  });
+  return { delta, guides };
+};
+
+// Snaps the box into an evenly spaced run with its neighbours on the same row or column
+const spacingCandidate = (moving: Box, targets: Box[], axis: GuideAxis, threshold: number): Candidate | null => {
+  const other = cross(axis);
+  const inLine = targets
+    .filter(box => overlapsOn(box, moving, other))
+    .sort((a, b) => start(a, axis) - start(b, axis));
+  const before = inLine.filter(box => end(box, axis) <= start(moving, axis) + threshold);
+  const after = inLine.filter(box => start(box, axis) >= end(moving, axis) - threshold);
+  const crossAt = start(moving, other) + size(moving, other) / 2;
+
+  const options: { target: number; gap: number; pairs: [Box, Box][] }[] = [];
+  const prev = before[before.length - 1];
+  const next = after[0];
+
+  if (prev && next) {
+    const gap = (start(next, axis) - end(prev, axis) - size(moving, axis)) / 2;
+    if (gap > 0) options.push({ target: end(prev, axis) + gap, gap, pairs: [[prev, moving], [moving, next]] });
+  }
+  if (before.length >= 2) {
+    const a = before[before.length - 2];
+    const gap = start(prev, axis) - end(a, axis);
+    if (gap > 0) options.push({ target: end(prev, axis) + gap, gap, pairs: [[a, prev], [prev, moving]] });
+  }
+  if (after.length >= 2) {
+    const b = after[1];
+    const gap = start(b, axis) - end(next, axis);
+    if (gap > 0) options.push({ target: start(next, axis) - gap - size(moving, axis), gap, pairs: [[moving, next], [next, b]] });
+  }
+
+  let best: Candidate | null = null;
+  options.forEach(option => {
+    const delta = option.target - start(moving, axis);
+    if (Math.abs(delta) > threshold || (best && Math.abs(delta) >= Math.abs(best.delta))) return;
+    const snapped = shift(moving, axis, delta);
+    const segments = option.pairs.map(([a, b]) => {
+      const left = a === moving ? snapped : a;
+      const right = b === moving ? snapped : b;
+      return { from: end(left, axis), to: start(right, axis), cross: crossAt };
+    });
+    best = { delta, guides: [{ kind: 'spacing', axis, gap: option.gap, segments }] };
+  });
+  return best;
+};
+
+const pick = (a: Candidate | null, b: Candidate | null): Candidate | null => {
+  if (!a) return b;
+  if (!b) return a;
+  if (Math.abs(a.delta - b.delta) < 0.5) return { delta: a.delta, guides: [...a.guides, ...b.guides] };
+  return Math.abs(a.delta) <= Math.abs(b.delta) ? a : b;
+};
+
+/**
+ * Finds the smallest nudge that lines the moving box up with the canvas or other layers.
+ * Edges and centers snap to each other; equal spacing snaps against neighbours in the same row or column.
+ */
+export const computeSnap = (moving: Box, targets: Box[], canvas: Box, threshold: number): SnapResult => {
+  const x = pick(edgeCandidates(moving, targets, canvas, 'x', threshold), spacingCandidate(moving, targets, 'x', threshold));
+  const y = pick(edgeCandidates(moving, targets, canvas, 'y', threshold), spacingCandidate(moving, targets, 'y', threshold));
+  return {
+    dx: x?.delta ?? 0,
+    dy: y?.delta ?? 0,
+    snappedX: !!x,
+    snappedY: !!y,
+    guides: [...(x?.guides ?? []), ...(y?.guides ?? [])]
+  };
+};
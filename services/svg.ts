@@ -0,0 +1,205 @@
+import { PosterConfig, PosterLayer, QrCodeSettings, TextLayer, TextualLayer } from "../types";
+import { withAlpha } from "./color";
+import { FONT_LIBRARY, fontFamilies, googleFontsUrl } from "./fonts";
+import { QrCode, qrCodeFor, qrGeometry } from "./qr";
+import { resolveImageSrc } from "./layers";
+import {
+  createSurface, drawBackground, fontStack, fontWeight, generatedQr, gradientLine, layoutBadges, layoutButton, layoutText, measureLayer, metric, RenderAssets, RenderSurface
+} from "./renderer";
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const num = (value: number) => Number(value.toFixed(2));
+
+const fontAttrs = (layer: TextualLayer, size: number, tracking = true) => {
+  const spacing = tracking && layer.letterSpacing ? ` letter-spacing="${num(layer.letterSpacing * size)}"` : '';
+  return `font-family="${escapeXml(fontStack(layer))}" font-size="${num(size)}" font-weight="${fontWeight(layer)}"${layer.pos.italic ? ' font-style="italic"' : ''}${spacing}`;
+};
+
+// SVG start and end follow the text's direction, while canvas left and right are fixed sides
+const ANCHORS: Record<CanvasTextAlign, string> = { left: 'start', start: 'start', center: 'middle', right: 'end', end: 'end' };
+const MIRRORED: Record<string, string> = { start: 'end', middle: 'middle', end: 'start' };
+
+const textAnchor = (align: CanvasTextAlign, direction: 'ltr' | 'rtl') => {
+  const anchor = ANCHORS[align];
+  return direction === 'rtl' && (align === 'left' || align === 'right') ? MIRRORED[anchor] : anchor;
+};
+
+const directionAttrs = (direction: 'ltr' | 'rtl') => direction === 'rtl' ? ' direction="rtl" unicode-bidi="embed"' : '';
+
+// Uploaded fonts travel inside the file; library fonts are pulled from Google Fonts when the SVG is opened
+const fontStyles = (config: PosterConfig) => {
+  const rules = fontFamilies(config).flatMap(family => {
+    const custom = config.customFonts.find(f => f.family === family);
+    if (custom) return [`@font-face { font-family: '${family}'; src: url(${custom.src}); }`];
+    const option = FONT_LIBRARY.find(f => f.family === family);
+    return option ? [`@import url('${googleFontsUrl(option)}');`] : [];
+  });
+  // @import rules must come first in a stylesheet
+  rules.sort((a, b) => Number(b.startsWith('@import')) - Number(a.startsWith('@import')));
+  return rules.length ? `  <style>${escapeXml(rules.join(' '))}</style>` : '';
+};
+
+/**
+ * Glow and drop shadow as one filter, layered like the canvas passes. Canvas shadow offsets ignore the layer's
+ * rotation, so the offset is turned back into the rotated group's frame to land in the same place.
+ */
+const textFilter = (layer: TextLayer, size: number, rotation: number) => {
+  const { shadow, glow } = layer;
+  if (!shadow && !glow) return '';
+  const parts: string[] = [];
+  const merge: string[] = [];
+  if (glow) {
+    parts.push(`<feGaussianBlur in="SourceAlpha" stdDeviation="${num(glow.blur * size / 2)}" result="glow-blur"/>`
+      + `<feFlood flood-color="${escapeXml(glow.color)}" flood-opacity="${glow.opacity}"/><feComposite in2="glow-blur" operator="in" result="glow"/>`);
+    merge.push('glow');
+  }
+  if (shadow) {
+    const cos = Math.cos(-rotation);
+    const sin = Math.sin(-rotation);
+    const dx = (shadow.x * cos - shadow.y * sin) * size;
+    const dy = (shadow.x * sin + shadow.y * cos) * size;
+    parts.push(`<feGaussianBlur in="SourceAlpha" stdDeviation="${num(shadow.blur * size / 2)}"/><feOffset dx="${num(dx)}" dy="${num(dy)}" result="shadow-blur"/>`
+      + `<feFlood flood-color="${escapeXml(shadow.color)}" flood-opacity="${shadow.opacity}"/><feComposite in2="shadow-blur" operator="in" result="shadow"/>`);
+    merge.push('shadow');
+  }
+  return `<filter id="${escapeXml(layer.id)}-fx" x="-50%" y="-50%" width="200%" height="200%">${parts.join('')}`
+    + `<feMerge>${[...merge, 'SourceGraphic'].map(m => `<feMergeNode in="${m}"/>`).join('')}</feMerge></filter>`;
+};
+
+// Embeds an image as a data URL so the file is self-contained; cross-origin images keep their URL
+const imageHref = (img: HTMLImageElement | undefined, src: string, mime = 'image/png', quality?: number) => {
+  if (!img?.naturalWidth) return src;
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    canvas.getContext('2d')?.drawImage(img, 0, 0);
+    return canvas.toDataURL(mime, quality);
+  } catch {
+    return src;
+  }
+};
+
+// Square modules share one path; rounded dots and finder eyes stay separate rects
+const qrMarkup = (settings: QrCodeSettings, qr: QrCode, x: number, y: number, size: number, logo: { img: HTMLImageElement | undefined; src: string } | null) => {
+  const { shapes, logo: logoBox, module } = qrGeometry(qr, settings, x, y, size);
+  const squares = shapes.filter(s => s.dark && !s.radius).map(s => `M${num(s.x)} ${num(s.y)}h${num(s.w)}v${num(s.h)}h${num(-s.w)}z`).join('');
+  const rounded = shapes.filter(s => s.radius).map(s =>
+    `<rect x="${num(s.x)}" y="${num(s.y)}" width="${num(s.w)}" height="${num(s.h)}" rx="${num(s.radius)}" fill="${escapeXml(s.dark ? settings.foreground : settings.background)}"/>`).join('');
+  let logoMarkup = '';
+  if (logoBox && logo?.img?.naturalWidth) {
+    const inset = module * 0.5;
+    logoMarkup = `<image href="${escapeXml(imageHref(logo.img, logo.src))}" x="${num(logoBox.x + inset)}" y="${num(logoBox.y + inset)}" width="${num(logoBox.size - inset * 2)}" height="${num(logoBox.size - inset * 2)}" preserveAspectRatio="xMidYMid meet"/>`;
+  }
+  return `<rect x="${num(x)}" y="${num(y)}" width="${num(size)}" height="${num(size)}" fill="${escapeXml(settings.background)}"/>`
+    + (squares ? `<path d="${squares}" fill="${escapeXml(settings.foreground)}" shape-rendering="crispEdges"/>` : '')
+    + rounded + logoMarkup;
+};
+
+const layerMarkup = (surface: RenderSurface, layer: PosterLayer): string => {
+  const { width, height, config, images } = surface;
+  const { pos } = layer;
+  const px = (pct: number) => (pct / 100) * width;
+  const py = (pct: number) => (pct / 100) * height;
+  const bounds = measureLayer(surface, layer);
+
+  switch (layer.type) {
+    case 'image': {
+      const w = width * layer.width * pos.scale;
+      const backdrop = layer.backdrop
+        ? `<rect x="${num(bounds.x)}" y="${num(bounds.y)}" width="${num(bounds.w)}" height="${num(bounds.h)}" fill="${escapeXml(layer.backdrop)}"/>`
+        : '';
+      const qrSettings = generatedQr(config, layer);
+      if (qrSettings) {
+        const qr = qrCodeFor(qrSettings);
+        const logo = qrSettings.logo ? { img: images.get(config.logoUrl), src: config.logoUrl } : null;
+        return qr ? backdrop + qrMarkup(qrSettings, qr, px(pos.x), py(pos.y), w, logo) : '';
+      }
+      const src = resolveImageSrc(config, layer);
+      const img = src ? images.get(src) : undefined;
+      if (!src || !img?.naturalWidth) return '';
+      return `${backdrop}<image href="${escapeXml(imageHref(img, src))}" x="${num(px(pos.x))}" y="${num(py(pos.y))}" width="${num(w)}" height="${num((img.height / img.width) * w)}"/>`;
+    }
+    case 'shape':
+      return layer.shape === 'ellipse'
+        ? `<ellipse cx="${num(bounds.x + bounds.w / 2)}" cy="${num(bounds.y + bounds.h / 2)}" rx="${num(bounds.w / 2)}" ry="${num(bounds.h / 2)}" fill="${escapeXml(layer.fill)}"/>`
+        : `<rect x="${num(bounds.x)}" y="${num(bounds.y)}" width="${num(bounds.w)}" height="${num(bounds.h)}" rx="${num(width * layer.radius * pos.scale)}" fill="${escapeXml(layer.fill)}"/>`;
+    case 'text': {
+      const { size, lines, box } = layoutText(surface, layer);
+      const { gradient, stroke, plate } = layer;
+      const defs: string[] = [];
+      let fill = escapeXml(layer.color);
+      if (gradient) {
+        const { x1, y1, x2, y2 } = gradientLine(box, gradient.angle);
+        defs.push(`<linearGradient id="${escapeXml(layer.id)}-fill" gradientUnits="userSpaceOnUse" x1="${num(x1)}" y1="${num(y1)}" x2="${num(x2)}" y2="${num(y2)}">`
+          + `<stop offset="0" stop-color="${escapeXml(gradient.from)}"/><stop offset="1" stop-color="${escapeXml(gradient.to)}"/></linearGradient>`);
+        fill = `url(#${escapeXml(layer.id)}-fill)`;
+      }
+      const filter = textFilter(layer, size, bounds.rotation);
+      if (filter) defs.push(filter);
+      // One element per line, since lines can differ in size, direction and alignment
+      const texts = lines.map(line => {
+        const outline = stroke
+          ? ` stroke="${escapeXml(stroke.color)}" stroke-width="${num(stroke.width * line.size * 2)}" stroke-linejoin="round" paint-order="stroke"`
+          : '';
+        return `<text ${fontAttrs(layer, line.size, line.tracking)}${directionAttrs(line.direction)} text-anchor="${textAnchor(line.align, line.direction)}" x="${num(line.x)}" y="${num(line.y)}"${outline}>${escapeXml(line.text)}</text>`;
+      }).join('');
+      const plateMarkup = plate
+        ? `<rect x="${num(bounds.x)}" y="${num(bounds.y)}" width="${num(bounds.w)}" height="${num(bounds.h)}" rx="${num(plate.radius * size)}" fill="${escapeXml(withAlpha(plate.color, plate.opacity))}"/>`
+        : '';
+      return (defs.length ? `<defs>${defs.join('')}</defs>` : '') + plateMarkup
+        + `<g fill="${fill}"${filter ? ` filter="url(#${escapeXml(layer.id)}-fx)"` : ''}>${texts}</g>`;
+    }
+    case 'badge': {
+      const scale = pos.scale;
+      const badges = layoutBadges(surface, layer);
+      const size = width * layer.fontSize * scale;
+      return badges.items.map(item =>
+        `<rect x="${num(bounds.x + item.x)}" y="${num(bounds.y)}" width="${num(item.w)}" height="${num(badges.height)}" rx="${num(metric(width, 'badgeRadius') * scale)}" fill="${escapeXml(item.fill)}"/>`
+        + `<text ${fontAttrs(layer, size, item.tracking)}${directionAttrs(item.direction)} text-anchor="${textAnchor('left', item.direction)}" x="${num(bounds.x + item.x + metric(width, 'badgeInset') * scale)}" y="${num(bounds.y + badges.height / 2 + metric(width, 'badgeBaseline') * scale)}" fill="${escapeXml(layer.color)}">${escapeXml(item.text)}</text>`
+      ).join('');
+    }
+    case 'button': {
+      const scale = pos.scale;
+      const button = layoutButton(surface, layer);
+      const size = width * layer.fontSize * scale;
+      return `<rect x="${num(bounds.x)}" y="${num(bounds.y)}" width="${num(bounds.w)}" height="${num(bounds.h)}" rx="${num(metric(width, 'buttonRadius') * scale)}" fill="${escapeXml(layer.fill)}"/>`
+        + `<text ${fontAttrs(layer, size, button.tracking)}${directionAttrs(button.direction)} text-anchor="middle" x="${num(px(pos.x))}" y="${num(bounds.y + bounds.h / 2 + metric(width, 'buttonBaseline') * scale)}" fill="${escapeXml(layer.color)}">${escapeXml(button.text)}</text>`;
+    }
+  }
+};
+
+/**
+ * Builds a vector SVG of the poster. Text stays live `<text>` so it can be edited in design tools;
+ * the background is embedded as a JPEG cropped exactly as on the canvas.
+ */
+export const createPosterSvg = (config: PosterConfig, { background, images }: RenderAssets): string => {
+  const surface = createSurface(config, images);
+  const { width, height } = surface;
+  drawBackground(surface.ctx, width, height, background);
+  let backgroundHref = '';
+  try {
+    backgroundHref = surface.ctx.canvas.toDataURL('image/jpeg', 0.92);
+  } catch {
+    backgroundHref = background?.src ?? '';
+  }
+
+  const layers = config.layers.filter(l => l.pos.visible).map(layer => {
+    const markup = layerMarkup(surface, layer);
+    const bounds = measureLayer(surface, layer);
+    if (!markup) return '';
+    const rotation = layer.pos.rotation ?? 0;
+    const transform = rotation ? ` transform="rotate(${rotation} ${num(bounds.x + bounds.w / 2)} ${num(bounds.y + bounds.h / 2)})"` : '';
+    return `  <g id="${escapeXml(layer.id)}" data-name="${escapeXml(layer.name)}"${transform}>${markup}</g>`;
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${num(height)}" viewBox="0 0 ${width} ${num(height)}">`,
+    fontStyles(config),
+    backgroundHref ? `  <image href="${escapeXml(backgroundHref)}" x="0" y="0" width="${width}" height="${num(height)}" preserveAspectRatio="none"/>` : '',
+    ...layers.filter(Boolean),
+    `</svg>`
+  ].filter(Boolean).join('\n');
+};
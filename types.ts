@@ -10,14 +10,187 @@ export interface ElementPos {
   x: number; // percentage 0-100
   y: number; // percentage 0-100
   scale: number; // multiplier 0.1 to 3.0
+  rotation?: number; // degrees clockwise around the element's center
   visible: boolean;
   bold?: boolean;
   italic?: boolean;
 }
 
+// Campaign variables that text layers can bind to instead of carrying literal text
+export type CampaignField = 'brandName' | 'eventName' | 'duration' | 'price' | 'headline' | 'subHeadline' | 'ctaText';
+
+// Brand assets that image layers can bind to instead of carrying their own source
+export type AssetField = 'logoUrl' | 'qrUrl';
+
+export type LayerType = 'text' | 'image' | 'shape' | 'badge' | 'button';
+
+interface BaseLayer {
+  id: string;
+  name: string;
+  type: LayerType;
+  pos: ElementPos;
+  groupId?: string; // layers sharing a group select and move together
+}
+
+export type TextTransform = 'none' | 'uppercase' | 'lowercase' | 'capitalize';
+
+// 'auto' takes each paragraph's direction from its first letter, so Arabic runs right to left
+export type TextDirection = 'auto' | 'ltr' | 'rtl';
+
+// Typography shared by every layer that draws text
+export interface Typography {
+  fontFamily?: string; // defaults to Inter
+  fontWeight?: number; // 100–900; without it the bold toggle picks 700 or 400
+  letterSpacing?: number; // in ems
+  textTransform?: TextTransform;
+  direction?: TextDirection;
+}
+
+// Effect sizes are in ems of the layer's font size, so effects follow its scale
+export interface TextStroke {
+  color: string;
+  width: number; // visible outline outside the glyphs
+}
+
+export interface TextShadow {
+  color: string;
+  opacity: number;
+  blur: number;
+  x: number;
+  y: number;
+}
+
+export interface TextGlow {
+  color: string;
+  opacity: number;
+  blur: number;
+}
+
+export interface TextGradient {
+  from: string;
+  to: string;
+  angle: number; // degrees as in CSS: 90 runs left to right, 180 top to bottom
+}
+
+// A second language shown with the main text, e.g. English with Arabic
+export interface BilingualText {
+  text: string;
+  arrangement: 'stacked' | 'split'; // below the main text, or side by side across the text box
+  scale: number; // size relative to the main text
+}
+
+// Rounded, semi-transparent box behind the text for legibility over busy backgrounds
+export interface TextPlate {
+  color: string;
+  opacity: number;
+  padding: number;
+  radius: number;
+}
+
+// Sizes below are fractions of the canvas width so layouts survive any output resolution
+export interface TextLayer extends BaseLayer, Typography {
+  type: 'text';
+  text: string;
+  field?: CampaignField;
+  color: string;
+  fontSize: number;
+  align: CanvasTextAlign;
+  maxWidth?: number; // box width; wraps onto multiple lines when set
+  maxLines?: number; // extra lines are cut with an ellipsis
+  autoFit?: boolean; // shrinks the font until the text fits its box and line limit
+  lineHeight?: number;
+  gradient?: TextGradient; // replaces the solid color when set
+  stroke?: TextStroke;
+  shadow?: TextShadow;
+  glow?: TextGlow;
+  plate?: TextPlate;
+  secondary?: BilingualText;
+}
+
+export interface ImageLayer extends BaseLayer {
+  type: 'image';
+  src: string | null;
+  assetField?: AssetField;
+  width: number;
+  backdrop?: string | null; // solid plate drawn behind the image, e.g. for QR codes
+}
+
+export interface ShapeLayer extends BaseLayer {
+  type: 'shape';
+  shape: 'rect' | 'ellipse';
+  width: number;
+  height: number;
+  fill: string;
+  radius: number;
+}
+
+export interface BadgeItem {
+  text: string;
+  field?: CampaignField;
+  fill: string;
+}
+
+export interface BadgeLayer extends BaseLayer, Typography {
+  type: 'badge';
+  items: BadgeItem[];
+  color: string;
+  fontSize: number;
+}
+
+export interface ButtonLayer extends BaseLayer, Typography {
+  type: 'button';
+  text: string;
+  field?: CampaignField;
+  color: string;
+  fill: string;
+  fontSize: number;
+}
+
+export type PosterLayer = TextLayer | ImageLayer | ShapeLayer | BadgeLayer | ButtonLayer;
+
+export type TextualLayer = TextLayer | BadgeLayer | ButtonLayer;
+
+// Placement fields an aspect ratio can override; styling stays shared across formats
+export type LayoutPos = Pick<ElementPos, 'x' | 'y' | 'scale' | 'rotation' | 'visible'>;
+
+// Layer id to placement, for a format laid out separately from the shared layout
+export type FormatLayout = Record<string, LayoutPos>;
+
+// A translation of the design's copy. Anything it leaves out shows the source language's copy and placement.
+export interface LanguageVariant {
+  code: string; // BCP 47 tag, e.g. 'ar'
+  name: string;
+  fields: Partial<Record<CampaignField, string>>;
+  texts: Record<string, string>; // unlinked layer text by layer id; badge items as `${layerId}:${index}`
+  layouts: Partial<Record<AspectRatio, FormatLayout>>; // per-format placements for longer or shorter copy
+}
+
+export type SubjectPlacement = 'any' | 'center' | 'left' | 'right';
+
+// 'text' describes where the design's layers sit in the prompt; 'mask' also sends them as a mask image
+export type LayoutGuidance = 'off' | 'text' | 'mask';
+
+// Where the image should stay calm so text and logos remain readable
+export interface PromptComposition {
+  clearTop: number; // fraction of the height kept as negative space; 0 leaves it to the model
+  clearBottom: number;
+  subject: SubjectPlacement;
+  layoutGuidance: LayoutGuidance; // replaces the top and bottom bands with the actual layer positions
+}
+
+// How a scene description becomes the prompt sent to the image engine
+export interface StylePreset {
+  id: string;
+  name: string;
+  template: string; // {scene} marks where the description goes
+  negativePrompt: string; // things the image should not contain, comma separated
+  composition: PromptComposition;
+}
+
 export interface PosterConfig {
   aspectRatio: AspectRatio;
   theme: string;
+  promptStyle: StylePreset; // a copy of the chosen preset, edited freely per design
   brandName: string;
   eventName: string;
   duration: string;
@@ -27,25 +200,196 @@ export interface PosterConfig {
   ctaText: string;
   logoUrl: string;
   qrUrl: string | null;
-  // Colors
-  colorBrand: string;
-  colorEvent: string;
-  colorHeadline: string;
-  colorSubHeadline: string;
-  colorCTA: string;
-  bgColorCTA: string;
-  colorBadges: string;
-  bgColorBadge1: string;
-  bgColorBadge2: string;
-  // Positions & Scales
-  posLogo: ElementPos;
-  posBrand: ElementPos;
-  posEventName: ElementPos;
-  posBadges: ElementPos;
-  posHeadline: ElementPos;
-  posSubHeadline: ElementPos;
-  posCTA: ElementPos;
-  posQR: ElementPos;
+  qrCode: QrCodeSettings | null; // replaces the qrUrl image while set
+  // Drawn in order, so the last layer sits on top
+  layers: PosterLayer[];
+  formatLayouts: Partial<Record<AspectRatio, FormatLayout>>;
+  brandKitId: string | null; // the brand kit whose palette and rules apply to this design
+  customFonts: CustomFont[];
+  sourceLanguage: string; // code of the copy typed into the design itself
+  languages: LanguageVariant[];
+  activeLanguage: string | null; // translation being edited, or null for the source copy
+}
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+// Campaign tags added to the QR link as utm_* parameters; empty ones are left out
+export interface UtmParams {
+  source: string;
+  medium: string;
+  campaign: string;
+  term: string;
+  content: string;
+}
+
+// A QR code generated from a link, drawn wherever the design shows its QR image
+export interface QrCodeSettings {
+  url: string;
+  utm: UtmParams;
+  errorCorrection: QrErrorCorrection;
+  foreground: string;
+  background: string;
+  rounded: boolean;
+  logo: boolean; // the design's logo in the middle of the code
+  logoSize: number; // share of the code's width
+}
+
+// A font file uploaded by the user, embedded so the design renders the same anywhere
+export interface CustomFont {
+  family: string;
+  src: string; // data URL of the TTF/OTF/WOFF2 file
+  fileName: string;
 }
 
 export const AAINEA_LOGO_DEFAULT = "https://aaiena.com/wp-content/uploads/2023/12/aaiena-logo-01.png";
+
+// The studio's original art direction, which every design used before styles were editable
+export const DEFAULT_STYLE_PRESET: StylePreset = {
+  id: 'dubai-luxury',
+  name: 'Dubai Luxury',
+  template: "High-quality cinematic background for a professional event poster.\nScene: {scene}.\nVibe: Ultra-modern, Dubai luxury, technology-centric.\nUse professional architectural lighting.",
+  negativePrompt: '',
+  composition: { clearTop: 0.2, clearBottom: 0.4, subject: 'any', layoutGuidance: 'text' }
+};
+
+export const DEFAULT_POSTER_CONFIG: PosterConfig = {
+  aspectRatio: AspectRatio.STORY,
+  theme: "Futuristic Dubai skyline, sunset, ultra high tech bridge, glowing nodes, 8k professional render",
+  promptStyle: DEFAULT_STYLE_PRESET,
+  brandName: "Aaiena",
+  eventName: "Dubai Bridge Showcase",
+  duration: "22nd - 29th Dec",
+  price: "Dubai Bridge",
+  headline: "Master AI Tools Today",
+  subHeadline: "Join our comprehensive workshop to boost your productivity 10x with AI.",
+  ctaText: "Sign Up Now",
+  logoUrl: AAINEA_LOGO_DEFAULT,
+  qrUrl: null,
+  qrCode: null,
+  layers: [
+    {
+      id: 'logo', name: 'Primary Logo', type: 'image', src: null, assetField: 'logoUrl', width: 0.18,
+      pos: { x: 5, y: 5, scale: 1.0, visible: true }
+    },
+    {
+      id: 'brand', name: 'Brand Name', type: 'text', text: '', field: 'brandName', color: "#ffffff",
+      fontSize: 0.04, align: 'center', textTransform: 'uppercase', maxWidth: 0.9, maxLines: 1, autoFit: true,
+      pos: { x: 50, y: 10, scale: 1.0, visible: true, bold: true, italic: false }
+    },
+    {
+      id: 'event', name: 'Event Identifier', type: 'text', text: '', field: 'eventName', color: "#3b82f6",
+      fontSize: 0.03, align: 'center', textTransform: 'uppercase', maxWidth: 0.9, maxLines: 1, autoFit: true,
+      pos: { x: 50, y: 62, scale: 1.0, visible: true, bold: true, italic: false }
+    },
+    {
+      id: 'badges', name: 'Dynamic Info Badges', type: 'badge', color: "#ffffff", fontSize: 0.026,
+      items: [
+        { text: '', field: 'duration', fill: "rgba(0, 0, 0, 0.6)" },
+        { text: '', field: 'price', fill: "rgba(37, 99, 235, 0.6)" }
+      ],
+      pos: { x: 5, y: 15, scale: 1.0, visible: true, bold: true, italic: false }
+    },
+    {
+      id: 'headline', name: 'Headline Layer', type: 'text', text: '', field: 'headline', color: "#ffffff",
+      fontSize: 0.08, align: 'center', maxWidth: 0.9, maxLines: 1, autoFit: true, shadow: { color: '#000000', opacity: 0.5, blur: 0.23, x: 0, y: 0 },
+      pos: { x: 50, y: 70, scale: 1.0, visible: true, bold: true, italic: false }
+    },
+    {
+      id: 'subHeadline', name: 'Sub Headline', type: 'text', text: '', field: 'subHeadline', color: "#e2e8f0",
+      fontSize: 0.038, align: 'center', maxWidth: 0.85, maxLines: 3, autoFit: true, lineHeight: 0.055,
+      pos: { x: 50, y: 77, scale: 1.0, visible: true, bold: false, italic: false }
+    },
+    {
+      id: 'qr', name: 'QR Destination', type: 'image', src: null, assetField: 'qrUrl', width: 0.14, backdrop: "white",
+      pos: { x: 85, y: 85, scale: 1.0, visible: false }
+    },
+    {
+      id: 'cta', name: 'Conversion Button', type: 'button', text: '', field: 'ctaText', color: "#ffffff",
+      fill: "#2563eb", fontSize: 0.045, textTransform: 'uppercase',
+      pos: { x: 50, y: 84, scale: 1.0, visible: true, bold: true, italic: false }
+    }
+  ],
+  formatLayouts: {},
+  brandKitId: null,
+  customFonts: [],
+  sourceLanguage: 'en',
+  languages: [],
+  activeLanguage: null
+};
+
+// A referenced asset points at a remote URL; an embedded asset carries its own data URL
+export type ProjectAsset =
+  | { kind: 'embedded'; dataUrl: string }
+  | { kind: 'url'; url: string };
+
+export type BackgroundKind = 'generated' | 'edited' | 'inpainted' | 'outpainted' | 'variation' | 'upscaled';
+
+// A background the image engine produced for a design, kept so earlier options can be compared and restored
+export interface GeneratedBackground {
+  id: string;
+  src: string; // data URL
+  kind: BackgroundKind;
+  prompt: string; // the scene description, or the instruction for an edit
+  aspectRatio: AspectRatio;
+  provider: ImageProviderId;
+  model: string;
+  createdAt: string; // ISO timestamp
+  pinned: boolean; // pinned backgrounds are never trimmed from the history
+  sourceId?: string; // the history entry this one was edited from, when it came from one
+}
+
+export interface PosterProject {
+  format: 'aaiena-poster-project';
+  schemaVersion: number;
+  name: string;
+  savedAt: string; // ISO timestamp
+  config: PosterConfig;
+  assets: {
+    background: ProjectAsset | null;
+    backgroundHistory: GeneratedBackground[]; // newest first
+  };
+}
+
+export interface BrandPalette {
+  id: string;
+  name: string;
+  colors: string[]; // hex
+}
+
+export interface BrandLogo {
+  id: string;
+  name: string;
+  src: string; // URL or data URL
+}
+
+// Design settings a brand starts every poster with; campaign copy stays per design
+export type BrandDefaults = Partial<Pick<PosterConfig, 'aspectRatio' | 'theme' | 'promptStyle' | 'brandName' | 'ctaText' | 'logoUrl' | 'layers' | 'formatLayouts'>>;
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  palettes: BrandPalette[];
+  logos: BrandLogo[];
+  fonts: string[];
+  stylePresets?: StylePreset[]; // missing on kits saved before presets existed
+  defaults: BrandDefaults;
+  locked: boolean; // only palette colors can be used while set
+  updatedAt: string; // ISO timestamp
+}
+
+export interface LibraryDesign {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  thumbnail: string | null; // small JPEG data URL
+  project: PosterProject;
+}
+
+export type ImageProviderId = 'gemini' | 'mock';
+
+// Which backend generates backgrounds; kept with the library rather than in any one design
+export interface ImageProviderSettings {
+  provider: ImageProviderId;
+  model: string; // ignored by the mock provider
+}
@@ -5,6 +5,8 @@ import react from '@vitejs/plugin-react';
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      // Relative asset paths, so the built site also works from a GitHub Pages project subfolder
+      base: './',
       server: {
         port: 3000,
         host: '0.0.0.0',
@@ -12,7 +14,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.IMAGE_MODEL': JSON.stringify(env.IMAGE_MODEL)
       },
       resolve: {
         alias: {